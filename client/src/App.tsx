@@ -1,6 +1,7 @@
 import { Routes, Route, Navigate } from 'react-router-dom';
 import Layout from './components/Layout';
 import BatchSummarize from './pages/BatchSummarize';
+import Dashboard from './pages/Dashboard';
 
 function App() {
   return (
@@ -8,6 +9,7 @@ function App() {
       <Routes>
         <Route path="/" element={<Navigate to="/batch-summarize" replace />} />
         <Route path="/batch-summarize" element={<BatchSummarize />} />
+        <Route path="/dashboard" element={<Dashboard />} />
       </Routes>
     </Layout>
   );
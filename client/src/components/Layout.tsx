@@ -1,6 +1,7 @@
 import React from 'react'
 import { NavLink } from 'react-router-dom'
 import { 
+  BarChart3,
   FileText, 
   Menu,
   X
@@ -35,6 +36,19 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               <FileText className="mr-3 flex-shrink-0 h-6 w-6" />
               批量总结
             </NavLink>
+            <NavLink
+              to="/dashboard"
+              className={({ isActive }) =>
+                `group flex items-center px-2 py-2 text-sm font-medium rounded-md ${
+                  isActive
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                }`
+              }
+            >
+              <BarChart3 className="mr-3 flex-shrink-0 h-6 w-6" />
+              数据概览
+            </NavLink>
           </nav>
         </div>
       </div>
@@ -75,6 +89,14 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <FileText className="mr-3 h-6 w-6" />
                 批量总结
               </NavLink>
+              <NavLink
+                to="/dashboard"
+                className="group flex items-center px-2 py-2 text-sm font-medium rounded-md text-gray-600 hover:bg-gray-50"
+                onClick={() => setSidebarOpen(false)}
+              >
+                <BarChart3 className="mr-3 h-6 w-6" />
+                数据概览
+              </NavLink>
             </nav>
           </div>
         </div>
@@ -1,24 +1,65 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Textarea } from '../components/ui/textarea';
+import { Input } from '../components/ui/input';
 import { Alert, AlertDescription } from '../components/ui/alert';
-import { Loader2, Link, CheckCircle, XCircle, FileText } from 'lucide-react';
+import { Loader2, Link, CheckCircle, XCircle, FileText, Download, Upload } from 'lucide-react';
 import axios from 'axios';
+import { exportApi } from '../services/api';
+import type { ExportFormat } from '../types';
+
+type FieldValue = string | number | boolean | string[] | number[] | null;
+type ExtractionErrorCode = 'DELETED' | 'VIOLATION' | 'CAPTCHA' | 'EXPIRED' | 'PAYWALLED' | 'NETWORK' | 'BLOCKED' | 'PARSE';
 
 interface BatchResult {
   url: string;
   title: string;
+  cover?: string;
   summary?: {
     summary: string;
     keyPoints: string[];
-    sentiment: string;
-    category: string;
+    sentiment: string | null;
+    category: string | null;
+    provider: string;
+    model: string;
+    coverage: 'full' | 'truncated';
+    parseStatus: 'ok' | 'repaired' | 'failed';
+    fields?: Record<string, FieldValue> | null;
+  };
+  cached?: boolean;
+  attempts?: {
+    extract: number;
+    summarize: number;
   };
   error?: string;
+  errorCode?: ExtractionErrorCode;
+  retryable?: boolean;
+}
+
+type JobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'cancelled';
+type InputMode = 'links' | 'documents';
+type ItemStatus = 'queued' | 'extracting' | 'summarizing' | 'saved' | 'failed' | 'cancelled';
+
+interface JobResponse {
+  success: boolean;
+  data: {
+    id: string;
+    status: JobStatus;
+    duplicates: number;
+    invalid: string[];
+  };
 }
 
-interface BatchResponse {
+interface IngestSource {
+  type: 'html' | 'mhtml' | 'text';
+  content: string;
+  filename?: string;
+  title?: string;
+  url?: string;
+}
+
+interface IngestResponse {
   success: boolean;
   results: BatchResult[];
   totalProcessed: number;
@@ -26,57 +67,293 @@ interface BatchResponse {
   failCount: number;
 }
 
+interface ExtractUrlsResponse {
+  success: boolean;
+  data: {
+    urls: string[];
+    duplicates: number;
+  };
+}
+
+interface ProvidersResponse {
+  success: boolean;
+  data: {
+    providers: string[];
+    default: string;
+  };
+}
+
+interface ExtractionSchemaOption {
+  id: string;
+  name: string;
+  fields: Array<{ name: string; description: string }>;
+}
+
+interface ExtractionSchemasResponse {
+  success: boolean;
+  data: {
+    schemas: ExtractionSchemaOption[];
+  };
+}
+
+interface ItemProgressEvent {
+  type: 'item';
+  position: number;
+  url: string;
+  status: ItemStatus;
+  result?: BatchResult;
+}
+
+interface JobProgressEvent {
+  type: 'job';
+  status: JobStatus;
+  total: number;
+  successCount: number;
+  failCount: number;
+}
+
+const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
+  queued: '排队中',
+  extracting: '提取中',
+  summarizing: '总结中',
+  saved: '已完成',
+  failed: '失败',
+  cancelled: '已取消'
+};
+
+const EXTRACTION_ERROR_LABELS: Record<ExtractionErrorCode, string> = {
+  DELETED: '已删除',
+  VIOLATION: '违规屏蔽',
+  CAPTCHA: '需要验证',
+  EXPIRED: '链接过期',
+  PAYWALLED: '付费文章',
+  NETWORK: '网络错误',
+  BLOCKED: '地址受限',
+  PARSE: '解析失败'
+};
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  md: 'Markdown',
+  csv: 'CSV',
+  xlsx: 'Excel',
+  jsonl: 'JSONL（含全文）'
+};
+
+const DOCUMENT_PATTERN = /\.(html?|mht(ml)?)$/i;
+
+// MHTML 以base64上传，保留原始字节，由服务端按页面声明的编码解码
+const readDocument = (file: File): Promise<IngestSource> => new Promise((resolve, reject) => {
+  const isMhtml = /\.mht(ml)?$/i.test(file.name);
+  const reader = new FileReader();
+  reader.onload = () => {
+    const result = typeof reader.result === 'string' ? reader.result : '';
+    resolve(isMhtml
+      ? { type: 'mhtml', content: result.slice(result.indexOf(',') + 1), filename: file.name }
+      : { type: 'html', content: result, filename: file.name });
+  };
+  reader.onerror = () => reject(new Error(`读取文件失败: ${file.name}`));
+  if (isMhtml) {
+    reader.readAsDataURL(file);
+  } else {
+    reader.readAsText(file);
+  }
+});
+
+const formatFieldValue = (value: FieldValue): string => {
+  if (value === null) return '未提及';
+  if (Array.isArray(value)) return value.length > 0 ? value.join('、') : '未提及';
+  if (typeof value === 'boolean') return value ? '是' : '否';
+  return String(value);
+};
+
 const BatchSummarize: React.FC = () => {
-  const [urls, setUrls] = useState('');
+  const [mode, setMode] = useState<InputMode>('links');
+  const [text, setText] = useState('');
+  const [documents, setDocuments] = useState<File[]>([]);
+  const [pastedTitle, setPastedTitle] = useState('');
+  const [pastedUrl, setPastedUrl] = useState('');
+  const [pastedText, setPastedText] = useState('');
+  const [detected, setDetected] = useState<{ urls: string[]; duplicates: number } | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [results, setResults] = useState<BatchResult[]>([]);
+  const [items, setItems] = useState<Record<number, ItemProgressEvent>>({});
   const [stats, setStats] = useState<{total: number, success: number, fail: number} | null>(null);
   const [error, setError] = useState('');
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState('');
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+  const [force, setForce] = useState(false);
+  const [schemas, setSchemas] = useState<ExtractionSchemaOption[]>([]);
+  const [extractionSchemaId, setExtractionSchemaId] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('md');
+  const eventSource = useRef<EventSource | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+  const documentInput = useRef<HTMLInputElement | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!urls.trim()) {
-      setError('请输入至少一个微信文章链接');
+  useEffect(() => () => eventSource.current?.close(), []);
+
+  useEffect(() => {
+    axios.get<ProvidersResponse>('/api/batch-summarize/providers')
+      .then(response => {
+        setProviders(response.data.data.providers);
+        setDefaultProvider(response.data.data.default);
+      })
+      .catch(err => console.error('获取模型列表失败:', err));
+
+    axios.get<ExtractionSchemasResponse>('/api/extraction-schemas')
+      .then(response => setSchemas(response.data.data.schemas))
+      .catch(err => console.error('获取提取字段定义失败:', err));
+  }, []);
+
+  // 输入停顿后再识别链接，避免每次按键都请求
+  useEffect(() => {
+    if (!text.trim()) {
+      setDetected(null);
       return;
     }
 
-    // 解析URL列表
-    const urlList = urls
-      .split('\n')
-      .map(url => url.trim())
-      .filter(url => url.length > 0);
+    let cancelled = false;
+    setIsDetecting(true);
+    const timer = setTimeout(() => {
+      axios.post<ExtractUrlsResponse>('/api/batch-summarize/extract-urls', { text })
+        .then(response => {
+          if (!cancelled) setDetected(response.data.data);
+        })
+        .catch(err => console.error('识别链接失败:', err))
+        .finally(() => {
+          if (!cancelled) setIsDetecting(false);
+        });
+    }, 400);
 
-    if (urlList.length === 0) {
-      setError('请输入有效的URL');
-      return;
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const content = typeof reader.result === 'string' ? reader.result : '';
+      setText(current => (current.trim() ? `${current}\n${content}` : content));
+    };
+    reader.onerror = () => setError(`读取文件失败: ${file.name}`);
+    reader.readAsText(file);
+  };
+
+  const addDocuments = (files: FileList | null) => {
+    const accepted = Array.from(files ?? []).filter(file => DOCUMENT_PATTERN.test(file.name));
+    if (files && accepted.length < files.length) {
+      setError('只支持 .html、.htm、.mhtml、.mht 文件');
     }
+    setDocuments(current => [...current, ...accepted]);
+  };
+
+  const processingOptions = () => ({
+    accountName: '批量导入',
+    ...(provider && { provider }),
+    ...(model.trim() && { model: model.trim() }),
+    ...(extractionSchemaId && { extractionSchemaId }),
+    force
+  });
+
+  const subscribe = (id: string) => {
+    eventSource.current?.close();
+    setIsProcessing(true);
+
+    const source = new EventSource(`/api/batch-summarize/jobs/${id}/events`);
+    eventSource.current = source;
+
+    source.addEventListener('item', (e) => {
+      const event: ItemProgressEvent = JSON.parse((e as MessageEvent).data);
+      setItems(prev => ({ ...prev, [event.position]: event }));
+    });
 
-    if (urlList.length > 20) {
-      setError('单次最多处理20个链接');
+    source.addEventListener('job', (e) => {
+      const event: JobProgressEvent = JSON.parse((e as MessageEvent).data);
+      setJobStatus(event.status);
+      setStats({
+        total: event.total,
+        success: event.successCount,
+        fail: event.failCount
+      });
+
+      if (event.status === 'completed' || event.status === 'cancelled') {
+        source.close();
+        setIsProcessing(false);
+      } else if (event.status === 'paused') {
+        // 暂停后保持订阅，继续任务时接着接收进度
+        setIsProcessing(false);
+      } else {
+        setIsProcessing(true);
+      }
+    });
+  };
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+    try {
+      await axios.post(`/api/batch-summarize/jobs/${jobId}/cancel`);
+    } catch (err) {
+      console.error('取消任务失败:', err);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!jobId) return;
+    try {
+      await axios.post(`/api/batch-summarize/jobs/${jobId}/retry`);
+      subscribe(jobId);
+    } catch (err) {
+      console.error('重试任务失败:', err);
+      setError('重试失败，请检查网络连接');
+    }
+  };
+
+  const handleResume = async () => {
+    if (!jobId) return;
+    try {
+      await axios.post(`/api/batch-summarize/jobs/${jobId}/resume`);
+      subscribe(jobId);
+    } catch (err) {
+      console.error('继续任务失败:', err);
+      setError('继续任务失败，请检查网络连接');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!text.trim()) {
+      setError('请输入至少一个文章链接');
       return;
     }
 
     setIsProcessing(true);
     setError('');
-    setResults([]);
+    setItems({});
     setStats(null);
+    setJobStatus(null);
 
     try {
-      const response = await axios.post<BatchResponse>('/api/batch-summarize', {
-        urls: urlList,
-        accountName: '批量导入'
+      const response = await axios.post<JobResponse>('/api/batch-summarize/jobs', {
+        text,
+        ...processingOptions()
       });
 
       if (response.data.success) {
-        setResults(response.data.results);
-        setStats({
-          total: response.data.totalProcessed,
-          success: response.data.successCount,
-          fail: response.data.failCount
-        });
+        setJobId(response.data.data.id);
+        subscribe(response.data.data.id);
       } else {
         setError('批量处理失败');
+        setIsProcessing(false);
       }
 
     } catch (err) {
@@ -84,44 +361,277 @@ const BatchSummarize: React.FC = () => {
       setError(axios.isAxiosError(err) && err.response?.data?.error 
         ? err.response.data.error 
         : '处理失败，请检查网络连接');
-    } finally {
       setIsProcessing(false);
     }
   };
 
-  const urlList = urls.split('\n').map(url => url.trim()).filter(url => url.length > 0);
+  const handleIngest = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const labels = [
+      ...documents.map(file => file.name),
+      ...(pastedText.trim() ? [pastedTitle.trim() || '粘贴的正文'] : [])
+    ];
+    if (labels.length === 0) {
+      setError('请选择页面文件或粘贴文章正文');
+      return;
+    }
+
+    eventSource.current?.close();
+    setIsProcessing(true);
+    setError('');
+    setJobId(null);
+    setJobStatus(null);
+    setItems(Object.fromEntries(labels.map((label, position) => [
+      position,
+      { type: 'item', position, url: label, status: 'queued' } as ItemProgressEvent
+    ])));
+    setStats({ total: labels.length, success: 0, fail: 0 });
+
+    // 逐篇提交，单个请求不会超过服务端的请求体大小限制
+    let success = 0;
+    let fail = 0;
+    for (const [position, label] of labels.entries()) {
+      setItems(prev => ({ ...prev, [position]: { ...prev[position], status: 'extracting' } }));
+
+      let result: BatchResult;
+      try {
+        const source: IngestSource = position < documents.length
+          ? await readDocument(documents[position])
+          : {
+            type: 'text',
+            content: pastedText,
+            ...(pastedTitle.trim() && { title: pastedTitle.trim() }),
+            ...(pastedUrl.trim() && { url: pastedUrl.trim() })
+          };
+        const response = await axios.post<IngestResponse>('/api/batch-summarize/ingest', {
+          sources: [source],
+          ...processingOptions()
+        });
+        result = response.data.results[0];
+      } catch (err) {
+        console.error('导入文章失败:', err);
+        result = {
+          url: label,
+          title: label,
+          error: axios.isAxiosError(err) && err.response?.data?.error
+            ? err.response.data.error
+            : err instanceof Error ? err.message : '导入失败，请检查网络连接'
+        };
+      }
+
+      if (result.error) {
+        fail++;
+      } else {
+        success++;
+      }
+      setItems(prev => ({ ...prev, [position]: { ...prev[position], status: result.error ? 'failed' : 'saved', result } }));
+      setStats({ total: labels.length, success, fail });
+    }
+
+    setIsProcessing(false);
+  };
+
+  const urlCount = detected?.urls.length ?? 0;
+  const documentCount = documents.length + (pastedText.trim() ? 1 : 0);
+  const orderedItems = Object.values(items).sort((a, b) => a.position - b.position);
+  const pendingItems = orderedItems.filter(item => !item.result && item.status !== 'cancelled');
+  const results = orderedItems
+    .map(item => item.result)
+    .filter((result): result is BatchResult => Boolean(result));
 
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center gap-2 mb-6">
         <FileText className="h-6 w-6 text-blue-600" />
-        <h1 className="text-2xl font-bold">批量微信文章总结</h1>
+        <h1 className="text-2xl font-bold">批量文章总结</h1>
       </div>
 
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Link className="h-5 w-5" />
-            输入微信文章链接
+            {mode === 'links' ? <Link className="h-5 w-5" /> : <Upload className="h-5 w-5" />}
+            {mode === 'links' ? '输入文章链接' : '导入页面文件或正文'}
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">
-                微信文章链接（每行一个）
-              </label>
-              <Textarea
-                value={urls}
-                onChange={(e) => setUrls(e.target.value)}
-                placeholder={`请输入微信文章链接，每行一个，例如：
-https://mp.weixin.qq.com/s?__biz=xxx&mid=xxx&idx=1&sn=xxx
-https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
-                rows={8}
-                className="font-mono text-sm"
-              />
+          <div className="flex gap-1 mb-4 border-b border-gray-200">
+            {([['links', '文章链接'], ['documents', '上传文件 / 粘贴正文']] as Array<[InputMode, string]>).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                disabled={isProcessing}
+                className={`px-4 py-2 text-sm -mb-px border-b-2 ${
+                  mode === value ? 'border-blue-600 text-blue-600 font-medium' : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={mode === 'links' ? handleSubmit : handleIngest} className="space-y-4">
+            {mode === 'links' ? (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium">
+                    文章链接（支持公众号、知乎、头条、36氪及一般博客，可直接粘贴聊天记录、阅读清单等文本）
+                  </label>
+                  <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    导入文件
+                  </Button>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".txt,.md,.html,.htm,.json,.csv"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                </div>
+                <Textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder={`粘贴包含文章链接的任意文本，会自动识别全部链接并去重，例如：
+  https://mp.weixin.qq.com/s/xxxxxxxx
+  https://zhuanlan.zhihu.com/p/yyyyyyyy
+  https://36kr.com/p/zzzzzzzz`}
+                  rows={8}
+                  className="font-mono text-sm"
+                />
+                {text.trim() && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    {isDetecting
+                      ? '正在识别链接...'
+                      : detected && `识别到 ${detected.urls.length} 个链接${detected.duplicates > 0 ? `，去重 ${detected.duplicates} 个` : ''}`}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  只能在微信中打开、或无法访问 mp.weixin.qq.com 时，可上传浏览器保存的页面（“网页，全部”或“单个文件”），或直接粘贴文章正文，不会抓取网页。
+                </p>
+                <div
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    addDocuments(e.dataTransfer.files);
+                  }}
+                  onClick={() => documentInput.current?.click()}
+                  className="flex cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 p-6 text-sm text-gray-500 hover:border-blue-400"
+                >
+                  <Upload className="mb-2 h-6 w-6" />
+                  拖入或点击选择 .html、.mhtml 文件
+                  <input
+                    ref={documentInput}
+                    type="file"
+                    multiple
+                    accept=".html,.htm,.mhtml,.mht"
+                    onChange={(e) => {
+                      addDocuments(e.target.files);
+                      e.target.value = '';
+                    }}
+                    className="hidden"
+                  />
+                </div>
+                {documents.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {documents.map((file, index) => (
+                      <li key={`${file.name}-${index}`} className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-gray-700 truncate">{file.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => setDocuments(current => current.filter((_, i) => i !== index))}
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          移除
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">标题（可选）</label>
+                    <Input
+                      value={pastedTitle}
+                      onChange={(e) => setPastedTitle(e.target.value)}
+                      placeholder="留空使用正文第一行"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">原文链接（可选）</label>
+                    <Input
+                      value={pastedUrl}
+                      onChange={(e) => setPastedUrl(e.target.value)}
+                      placeholder="https://mp.weixin.qq.com/s/..."
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  placeholder="粘贴文章正文"
+                  rows={8}
+                  className="text-sm"
+                />
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium mb-2">模型提供方</label>
+                <select
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value)}
+                  className="w-full h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+                >
+                  <option value="">默认{defaultProvider && `（${defaultProvider}）`}</option>
+                  {providers.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">模型（可选）</label>
+                <Input
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder="留空使用提供方默认模型"
+                />
+              </div>
             </div>
 
+            {schemas.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-2">提取字段（可选）</label>
+                <select
+                  value={extractionSchemaId}
+                  onChange={(e) => setExtractionSchemaId(e.target.value)}
+                  className="w-full h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+                >
+                  <option value="">不提取额外字段</option>
+                  {schemas.map(schema => (
+                    <option key={schema.id} value={schema.id}>
+                      {schema.name}（{schema.fields.map(field => field.name).join('、')}）
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={force}
+                onChange={(e) => setForce(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              忽略缓存，重新调用模型总结
+            </label>
 
             {error && (
               <Alert variant="destructive">
@@ -129,20 +639,42 @@ https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
               </Alert>
             )}
 
-            <Button 
-              type="submit" 
-              disabled={isProcessing || urlList.length === 0}
-              className="w-full sm:w-auto"
-            >
-              {isProcessing ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  处理中...
-                </>
-              ) : (
-                `开始处理 ${urlList.length} 个链接`
+            <div className="flex flex-wrap gap-2">
+              <Button 
+                type="submit" 
+                disabled={isProcessing || (mode === 'links' ? isDetecting || urlCount === 0 : documentCount === 0)}
+                className="w-full sm:w-auto"
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    处理中...
+                  </>
+                ) : mode === 'links' ? (
+                  `开始处理 ${urlCount} 个链接`
+                ) : (
+                  `开始导入 ${documentCount} 篇文章`
+                )}
+              </Button>
+
+              {isProcessing && jobId && (
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  取消任务
+                </Button>
+              )}
+
+              {jobStatus === 'paused' && jobId && (
+                <Button type="button" onClick={handleResume}>
+                  继续任务
+                </Button>
               )}
-            </Button>
+
+              {!isProcessing && jobId && stats && stats.fail > 0 && (
+                <Button type="button" variant="outline" onClick={handleRetry}>
+                  重试失败的 {stats.fail} 个链接
+                </Button>
+              )}
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -150,9 +682,25 @@ https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
       {stats && (
         <Card>
           <CardHeader>
-            <CardTitle>处理结果统计</CardTitle>
+            <CardTitle>
+              处理结果统计
+              {jobStatus === 'cancelled' && (
+                <span className="ml-2 text-sm font-normal text-gray-500">（任务已取消）</span>
+              )}
+              {jobStatus === 'paused' && (
+                <span className="ml-2 text-sm font-normal text-amber-600">（任务已暂停）</span>
+              )}
+            </CardTitle>
           </CardHeader>
           <CardContent>
+            {jobStatus === 'paused' && (
+              <Alert className="mb-4 border-amber-200 bg-amber-50 text-amber-900">
+                <AlertDescription>
+                  微信要求环境验证，剩余链接已暂停处理。请稍等几分钟，或在浏览器中打开任一文章完成验证后，点击“继续任务”。
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="grid grid-cols-3 gap-4 text-center">
               <div>
                 <div className="text-2xl font-bold text-blue-600">{stats.total}</div>
@@ -167,6 +715,63 @@ https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
                 <div className="text-sm text-gray-600">失败</div>
               </div>
             </div>
+
+            {!isProcessing && (
+              <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-100">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+                >
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                    <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                {jobId && stats.success > 0 && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => window.location.assign(exportApi.getUrl(exportFormat, { scope: 'job', jobId }))}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    导出本次结果
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => window.location.assign(exportApi.getUrl(exportFormat, { scope: 'history', accountName: '批量导入' }))}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  导出全部历史
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isProcessing && pendingItems.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>处理进度</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {pendingItems.map(item => (
+                <li key={item.position} className="flex items-center gap-2">
+                  {item.status === 'queued' ? (
+                    <span className="h-4 w-4 flex-shrink-0" />
+                  ) : (
+                    <Loader2 className="h-4 w-4 animate-spin text-blue-500 flex-shrink-0" />
+                  )}
+                  <span className="text-gray-500 w-12 flex-shrink-0">{ITEM_STATUS_LABELS[item.status]}</span>
+                  <span className="font-mono text-gray-700 truncate">{item.url}</span>
+                </li>
+              ))}
+            </ul>
           </CardContent>
         </Card>
       )}
@@ -185,22 +790,54 @@ https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
                   )}
                   
                   <div className="flex-1 space-y-2">
-                    <div>
-                      <h3 className="font-medium text-lg">{result.title}</h3>
-                      <a 
-                        href={result.url} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-sm text-blue-600 hover:underline break-all"
-                      >
-                        {result.url}
-                      </a>
+                    <div className="flex items-start gap-3">
+                      {result.cover && (
+                        <img
+                          src={result.cover}
+                          alt=""
+                          loading="lazy"
+                          className="h-16 w-16 flex-shrink-0 rounded object-cover bg-gray-100"
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <h3 className="font-medium text-lg">{result.title}</h3>
+                        <a 
+                          href={result.url} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          className="text-sm text-blue-600 hover:underline break-all"
+                        >
+                          {result.url}
+                        </a>
+                      </div>
                     </div>
 
+                    {result.attempts && (result.attempts.extract > 1 || result.attempts.summarize > 1) && (
+                      <div className="text-xs text-gray-400">
+                        抓取 {result.attempts.extract} 次 · 调用模型 {result.attempts.summarize} 次
+                      </div>
+                    )}
+
                     {result.error ? (
                       <div className="text-red-600 text-sm">
+                        {result.errorCode && (
+                          <span className="mr-2 inline-flex items-center gap-1">
+                            <span className="rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium">
+                              {EXTRACTION_ERROR_LABELS[result.errorCode]}
+                            </span>
+                            <span className="text-xs text-gray-500">
+                              {result.retryable ? '可稍后重试' : '重试无效'}
+                            </span>
+                          </span>
+                        )}
                         错误: {result.error}
                       </div>
+                    ) : result.summary?.parseStatus === 'failed' ? (
+                      <Alert className="border-amber-200 bg-amber-50 text-amber-900">
+                        <AlertDescription>
+                          文章已保存，但模型输出多次修复后仍无法解析为有效总结（{result.summary.provider} / {result.summary.model}），请稍后重新总结。
+                        </AlertDescription>
+                      </Alert>
                     ) : result.summary && (
                       <div className="space-y-3">
                         <div>
@@ -222,6 +859,22 @@ https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
                           </ul>
                         </div>
                         
+                        {result.summary.fields && Object.keys(result.summary.fields).length > 0 && (
+                          <div>
+                            <h4 className="font-medium text-sm text-gray-700 mb-1">提取字段</h4>
+                            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                              {Object.entries(result.summary.fields).map(([name, value]) => (
+                                <React.Fragment key={name}>
+                                  <dt className="text-gray-500 font-mono">{name}</dt>
+                                  <dd className={value === null ? 'text-gray-400' : 'text-gray-600'}>
+                                    {formatFieldValue(value)}
+                                  </dd>
+                                </React.Fragment>
+                              ))}
+                            </dl>
+                          </div>
+                        )}
+
                         <div className="flex gap-4 text-sm">
                           <span className="text-gray-600">
                             <strong>情感:</strong> {result.summary.sentiment}
@@ -229,6 +882,18 @@ https://mp.weixin.qq.com/s?__biz=yyy&mid=yyy&idx=1&sn=yyy`}
                           <span className="text-gray-600">
                             <strong>分类:</strong> {result.summary.category}
                           </span>
+                          <span className="text-gray-400">
+                            {result.summary.provider} / {result.summary.model}
+                          </span>
+                          {result.cached && (
+                            <span className="text-gray-400">来自缓存</span>
+                          )}
+                          {result.summary.parseStatus === 'repaired' && (
+                            <span className="text-gray-400">经自动修复</span>
+                          )}
+                          {result.summary.coverage === 'truncated' && (
+                            <span className="text-amber-600">仅基于部分正文生成</span>
+                          )}
                         </div>
                       </div>
                     )}
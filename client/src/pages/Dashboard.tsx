@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import { accountsApi, summariesApi } from '../services/api';
+import type { StatsBucket, SummaryStats, SummaryStatsPoint, WeChatAccount } from '../types';
+
+const SENTIMENT_LABELS: Record<string, string> = {
+  positive: '正面',
+  neutral: '中性',
+  negative: '负面'
+};
+
+const SENTIMENT_COLORS: Record<string, string> = {
+  positive: 'bg-green-500',
+  neutral: 'bg-gray-400',
+  negative: 'bg-red-500'
+};
+
+const CATEGORY_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-amber-500', 'bg-teal-500', 'bg-pink-500'];
+const OTHER_CATEGORY = '其他';
+const TOP_CATEGORY_COUNT = CATEGORY_COLORS.length;
+
+interface Segment {
+  key: string;
+  label: string;
+  color: string;
+}
+
+interface StackedBarChartProps {
+  series: SummaryStatsPoint[];
+  segments: Segment[];
+  valueOf: (point: SummaryStatsPoint, key: string) => number;
+}
+
+/**
+ * 按时间段堆叠的柱状图，柱高与该时间段的总数成比例
+ */
+const StackedBarChart: React.FC<StackedBarChartProps> = ({ series, segments, valueOf }) => {
+  const max = Math.max(1, ...series.map(point => point.total));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-1 h-48 border-b border-gray-200">
+        {series.map(point => (
+          <div
+            key={point.bucket}
+            className="flex-1 min-w-[4px] flex flex-col-reverse"
+            style={{ height: `${(point.total / max) * 100}%` }}
+            title={`${point.bucket}：${point.total} 篇\n` + segments
+              .map(segment => `${segment.label} ${valueOf(point, segment.key)}`)
+              .join('，')}
+          >
+            {segments.map(segment => {
+              const value = valueOf(point, segment.key);
+              return value > 0 && point.total > 0 ? (
+                <div
+                  key={segment.key}
+                  className={segment.color}
+                  style={{ height: `${(value / point.total) * 100}%` }}
+                />
+              ) : null;
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{series[0]?.bucket}</span>
+        <span>{series[series.length - 1]?.bucket}</span>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {segments.map(segment => (
+          <span key={segment.key} className="flex items-center gap-1">
+            <span className={`inline-block h-3 w-3 rounded-sm ${segment.color}`} />
+            {segment.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const Dashboard: React.FC = () => {
+  const [from, setFrom] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [bucket, setBucket] = useState<StatsBucket>('day');
+  const [accountId, setAccountId] = useState('');
+  const [accounts, setAccounts] = useState<WeChatAccount[]>([]);
+  const [stats, setStats] = useState<SummaryStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    accountsApi.getAll()
+      .then(response => setAccounts(response.data.data ?? []))
+      .catch(err => console.error('获取公众号列表失败:', err));
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError('');
+
+    summariesApi.getStats({ from, to, bucket, ...(accountId && { accountId }) })
+      .then(response => setStats(response.data.data ?? null))
+      .catch(err => {
+        console.error('获取统计数据失败:', err);
+        setError(err.response?.data?.error ?? '获取统计数据失败，请检查网络连接');
+      })
+      .finally(() => setIsLoading(false));
+  }, [from, to, bucket, accountId]);
+
+  const sentimentSegments: Segment[] = Object.keys(SENTIMENT_LABELS).map(key => ({
+    key,
+    label: SENTIMENT_LABELS[key],
+    color: SENTIMENT_COLORS[key]
+  }));
+
+  // 分类较多时只单独展示数量最多的几个，其余合并为“其他”
+  const topCategories = stats?.categories.slice(0, TOP_CATEGORY_COUNT).map(item => item.category) ?? [];
+  const categorySegments: Segment[] = [
+    ...topCategories.map((category, index) => ({
+      key: category,
+      label: category,
+      color: CATEGORY_COLORS[index]
+    })),
+    ...(stats && stats.categories.length > TOP_CATEGORY_COUNT
+      ? [{ key: OTHER_CATEGORY, label: OTHER_CATEGORY, color: 'bg-gray-300' }]
+      : [])
+  ];
+  const categoryValue = (point: SummaryStatsPoint, key: string) => key === OTHER_CATEGORY
+    ? Object.entries(point.categories)
+      .filter(([category]) => !topCategories.includes(category))
+      .reduce((sum, [, count]) => sum + count, 0)
+    : point.categories[key] ?? 0;
+
+  const sentimentTotal = stats
+    ? Object.values(stats.sentiment).reduce((sum, count) => sum + count, 0)
+    : 0;
+  const maxCategoryCount = Math.max(1, ...(stats?.categories.map(item => item.count) ?? []));
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-2 mb-6">
+        <BarChart3 className="h-6 w-6 text-blue-600" />
+        <h1 className="text-2xl font-bold">数据概览</h1>
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
+      </div>
+
+      <Card>
+        <CardContent className="pt-4">
+          <div className="grid gap-4 sm:grid-cols-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">开始日期</label>
+              <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">结束日期</label>
+              <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">统计粒度</label>
+              <select
+                value={bucket}
+                onChange={(e) => setBucket(e.target.value as StatsBucket)}
+                className="w-full h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+              >
+                <option value="day">按天</option>
+                <option value="week">按周</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">公众号</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+              >
+                <option value="">全部</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.displayName}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {stats && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardContent className="pt-4 text-center">
+                <div className="text-2xl font-bold text-blue-600">{stats.total}</div>
+                <div className="text-sm text-gray-600">所选范围内的总结</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4 text-center">
+                <div className="text-2xl font-bold text-green-600">{stats.recent}</div>
+                <div className="text-sm text-gray-600">最近7天</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4 text-center">
+                <div className="text-2xl font-bold text-purple-600">{stats.categories.length}</div>
+                <div className="text-sm text-gray-600">涉及分类</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>情感趋势</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StackedBarChart
+                series={stats.series}
+                segments={sentimentSegments}
+                valueOf={(point, key) => point.sentiment[key] ?? 0}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>分类趋势</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {categorySegments.length > 0 ? (
+                <StackedBarChart
+                  series={stats.series}
+                  segments={categorySegments}
+                  valueOf={categoryValue}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">暂无分类数据</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>情感分布</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {sentimentSegments.map(segment => {
+                  const count = stats.sentiment[segment.key] ?? 0;
+                  const percent = sentimentTotal > 0 ? Math.round((count / sentimentTotal) * 100) : 0;
+                  return (
+                    <div key={segment.key}>
+                      <div className="flex justify-between text-sm text-gray-600 mb-1">
+                        <span>{segment.label}</span>
+                        <span>{count}（{percent}%）</span>
+                      </div>
+                      <div className="h-2 rounded bg-gray-100">
+                        <div className={`h-2 rounded ${segment.color}`} style={{ width: `${percent}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>分类排行</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {stats.categories.length === 0 && (
+                  <p className="text-sm text-gray-500">暂无分类数据</p>
+                )}
+                {stats.categories.slice(0, 10).map(item => (
+                  <div key={item.category}>
+                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                      <span>{item.category}</span>
+                      <span>{item.count}</span>
+                    </div>
+                    <div className="h-2 rounded bg-gray-100">
+                      <div
+                        className="h-2 rounded bg-blue-500"
+                        style={{ width: `${(item.count / maxCategoryCount) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -5,7 +5,16 @@ import type {
   Summary, 
   TaskLog, 
   ApiResponse, 
-  PaginatedResponse 
+  PaginatedResponse,
+  StatsBucket,
+  SummaryStats,
+  Digest,
+  DigestPeriod,
+  ExportFormat,
+  ExportParams,
+  FeedFormat,
+  SavedSearch,
+  SavedSearchInput
 } from '../types'
 
 const api = axios.create({
@@ -41,8 +50,9 @@ export const articlesApi = {
   getAll: (params?: { page?: number; limit?: number; accountId?: string }) => 
     api.get<PaginatedResponse<Article>>('/articles', { params }),
   getById: (id: string) => api.get<ApiResponse<Article>>(`/articles/${id}`),
+  delete: (id: string) => api.delete<ApiResponse<void>>(`/articles/${id}`),
   fetch: (accountId: string, days: number = 1) => 
-    api.post<ApiResponse<{ message: string; articles: number }>>(`/articles/fetch/${accountId}`, { days }),
+    api.post<ApiResponse<{ message: string; articles: number; jobId?: string }>>(`/articles/fetch/${accountId}`, { days }),
   search: (params: { q?: string; category?: string; sentiment?: string; page?: number; limit?: number }) =>
     api.get<PaginatedResponse<Article>>('/articles/search', { params }),
 }
@@ -53,12 +63,66 @@ export const summariesApi = {
     api.get<PaginatedResponse<Summary>>('/summaries', { params }),
   getByArticleId: (articleId: string) => api.get<ApiResponse<Summary>>(`/summaries/article/${articleId}`),
   create: (articleId: string) => api.post<ApiResponse<Summary>>(`/summaries/create/${articleId}`),
-  getStats: () => api.get<ApiResponse<{
-    total: number
-    recent: number
-    sentiment: Record<string, number>
-    categories: Array<{ category: string; count: number }>
-  }>>('/summaries/stats'),
+  getStats: (params?: { from?: string; to?: string; accountId?: string; bucket?: StatsBucket }) =>
+    api.get<ApiResponse<SummaryStats>>('/summaries/stats', { params }),
+}
+
+// Digests API
+export const digestsApi = {
+  getAll: (params?: { page?: number; limit?: number }) =>
+    api.get<PaginatedResponse<Digest>>('/digests', { params }),
+  getById: (id: string) => api.get<ApiResponse<Digest>>(`/digests/${id}`),
+  create: (data: {
+    period: DigestPeriod
+    from?: string
+    to?: string
+    accountIds?: string[]
+    category?: string
+    title?: string
+    language?: string
+    provider?: string
+    model?: string
+  }) => api.post<ApiResponse<Digest>>('/digests', data, { timeout: 300000 }),
+  getMarkdown: (id: string) => api.get<string>(`/digests/${id}/markdown`, { responseType: 'text' }),
+  delete: (id: string) => api.delete<ApiResponse<void>>(`/digests/${id}`),
+}
+
+// Export API
+// 导出文件由服务端流式生成，返回下载链接交给浏览器处理，而不是经axios读入内存
+export const exportApi = {
+  getUrl: (format: ExportFormat, params: ExportParams) => {
+    const query = new URLSearchParams({ format })
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) query.set(key, value)
+    })
+    return `/api/export?${query.toString()}`
+  },
+}
+
+// Saved searches API
+export const savedSearchesApi = {
+  getAll: () => api.get<ApiResponse<SavedSearch[]>>('/saved-searches'),
+  create: (data: SavedSearchInput) => api.post<ApiResponse<SavedSearch>>('/saved-searches', data),
+  update: (id: string, data: Partial<SavedSearchInput>) => api.put<ApiResponse<SavedSearch>>(`/saved-searches/${id}`, data),
+  delete: (id: string) => api.delete<ApiResponse<void>>(`/saved-searches/${id}`),
+}
+
+// Feeds API
+// 订阅地址交给RSS阅读器使用，设置了 FEED_TOKEN 时需附带令牌
+export const feedsApi = {
+  getUrl: (
+    target: { accountId: string } | { category: string } | { searchId: string },
+    format: FeedFormat = 'rss',
+    token?: string
+  ) => {
+    const path = 'accountId' in target
+      ? `accounts/${target.accountId}`
+      : 'category' in target
+        ? `categories/${encodeURIComponent(target.category)}`
+        : `searches/${target.searchId}`
+    const query = token ? `?token=${encodeURIComponent(token)}` : ''
+    return `/api/feeds/${path}.${format}${query}`
+  },
 }
 
 // Tasks API
@@ -70,9 +134,10 @@ export const tasksApi = {
     recent: number
     byType: Record<string, number>
     byStatus: Record<string, number>
+    averageDuration: Record<string, number>
   }>>('/tasks/stats'),
-  triggerFetch: () => api.post<ApiResponse<{ message: string }>>('/tasks/trigger/fetch'),
-  triggerSummarize: () => api.post<ApiResponse<{ message: string }>>('/tasks/trigger/summarize'),
+  triggerFetch: () => api.post<ApiResponse<{ message: string; accounts: number; articles: number }>>('/tasks/trigger/fetch'),
+  triggerSummarize: () => api.post<ApiResponse<{ message: string; articles: number }>>('/tasks/trigger/summarize'),
 }
 
 export default api
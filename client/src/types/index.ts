@@ -5,6 +5,15 @@ export interface WeChatAccount {
   description?: string
   isActive: boolean
   lastFetched?: string
+  provider?: string
+  model?: string
+  language?: string
+  promptTemplateId?: string
+  extractionSchemaId?: string
+  sourceType?: 'biz' | 'feed' | 'album'
+  source?: string
+  schedule?: string
+  metadata?: WeChatAccountMetadata | null // identity parsed from the account's article pages
   createdAt: string
   updatedAt: string
   _count?: {
@@ -12,28 +21,83 @@ export interface WeChatAccount {
   }
 }
 
+export interface WeChatAccountMetadata {
+  biz?: string
+  userName?: string // original id, gh_xxx
+  nickname?: string
+  headImageUrl?: string
+}
+
+// Inline script variables of a WeChat page, or Open Graph / JSON-LD fields of other sites
+export interface ArticleMetadata extends WeChatAccountMetadata {
+  siteName?: string // non-WeChat sites only
+  publishTime?: string
+  description?: string
+  coverUrl?: string
+  copyrightStat?: number
+  isOriginal?: boolean
+  author?: string
+  sourceNickname?: string // original account of a reposted article
+  sourceUrl?: string
+}
+
 export interface Article {
   id: string
   title: string
-  content: string
+  content?: string // omitted from search results
+  markdown?: string | null // structure-preserving Markdown body, omitted from search results
   url: string
   publishDate: string
   author?: string
+  metadata?: ArticleMetadata | null
+  ingestSource?: 'fetch' | 'html' | 'mhtml' | 'text' // fetched by URL, uploaded page file or pasted text
+  adapter?: string | null // source adapter that extracted the page, e.g. wechat or readability
   readCount?: number
   likeCount?: number
   accountId: string
   account?: WeChatAccount
   summary?: Summary
+  cover?: string | null // cover thumbnail URL
+  assets?: ArticleAsset[] // only on article detail
   createdAt: string
   updatedAt: string
+  score?: number | null // search relevance (bm25, lower is better)
+  highlight?: {
+    title: string // HTML with <mark> around matched terms
+    snippet: string
+  }
+}
+
+export type ArticleAssetType = 'cover' | 'image' | 'video' | 'audio' | 'miniprogram'
+
+export interface ArticleAsset {
+  id: string
+  type: ArticleAssetType
+  position: number // the cover is 0, body assets follow in reading order
+  url: string
+  caption: string | null
+  metadata: Record<string, string> | null
+  downloaded: boolean
+  mimeType: string | null
+  size: number | null
+  file: string // served locally or proxied
 }
 
 export interface Summary {
   id: string
   content: string
-  keyPoints: string // JSON string that will be parsed to string[]
-  sentiment: 'positive' | 'negative' | 'neutral'
-  category: string
+  keyPoints: string[]
+  sentiment: 'positive' | 'negative' | 'neutral' | null
+  category: string | null
+  provider?: string
+  model?: string
+  coverage?: 'full' | 'truncated'
+  chunkCount?: number
+  parseStatus?: 'ok' | 'repaired' | 'failed'
+  promptVersion?: string
+  promptTemplateId?: string
+  extractedFields?: string | null // JSON string of user-defined extraction fields
+  extractionSchemaId?: string
   articleId: string
   article?: Article
   createdAt: string
@@ -43,8 +107,10 @@ export interface Summary {
 export interface TaskLog {
   id: string
   taskType: string
+  target?: string
   status: 'pending' | 'running' | 'completed' | 'failed'
   message?: string
+  details?: Record<string, unknown>
   startTime: string
   endTime?: string
   duration?: number
@@ -66,3 +132,113 @@ export interface PaginatedResponse<T> {
     pages: number
   }
 }
+
+export interface PromptTemplate {
+  id: string
+  name: string
+  version: number
+  promptVersion: string
+  description?: string
+  systemPrompt: string
+  userPrompt: string
+  variables: string[]
+  createdAt: string
+}
+
+export interface ExtractionField {
+  name: string
+  type: 'string' | 'number' | 'boolean' | 'date' | 'string[]' | 'number[]'
+  description: string
+  required?: boolean
+}
+
+export interface ExtractionSchema {
+  id: string
+  name: string
+  description?: string
+  fields: ExtractionField[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type StatsBucket = 'day' | 'week'
+
+export interface SummaryStatsPoint {
+  bucket: string // YYYY-MM-DD, the Monday for weekly buckets
+  total: number
+  sentiment: Record<string, number>
+  categories: Record<string, number>
+}
+
+export interface SummaryStats {
+  total: number
+  recent: number
+  sentiment: Record<string, number>
+  categories: Array<{ category: string; count: number }>
+  series: SummaryStatsPoint[]
+  range: {
+    from: string
+    to: string
+    bucket: StatsBucket
+  }
+}
+
+export type DigestPeriod = 'daily' | 'weekly' | 'custom'
+
+export interface DigestArticle {
+  id: string
+  title: string
+  url: string
+  account: string
+  publishDate: string | null
+}
+
+export interface Digest {
+  id: string
+  title: string
+  period: DigestPeriod
+  rangeStart: string
+  rangeEnd: string
+  accountIds: string[] | null
+  category?: string
+  language: string
+  overview: string
+  themes: Array<{ title: string; summary: string; articleIds: string[] }>
+  takeaways: Array<{ point: string; articleIds: string[] }>
+  contradictions: Array<{ topic: string; description: string; articleIds: string[] }>
+  articles: DigestArticle[]
+  articleCount: number
+  provider: string
+  model: string
+  createdAt: string
+}
+
+export type ExportFormat = 'md' | 'csv' | 'jsonl' | 'xlsx'
+
+export type FeedFormat = 'rss' | 'atom'
+
+// Search conditions saved for a feed, same meaning as /articles/search
+export interface SavedSearch {
+  id: string
+  name: string
+  q: string | null
+  category: string | null
+  sentiment: string | null
+  accountId: string | null
+  feeds: Record<FeedFormat, string> // feed paths without the token
+  createdAt: string
+  updatedAt: string
+}
+
+export type SavedSearchInput = {
+  name: string
+  q?: string | null
+  category?: string | null
+  sentiment?: string | null
+  accountId?: string | null
+}
+
+export type ExportParams =
+  | { scope: 'job'; jobId: string }
+  | { scope: 'history'; accountName?: string; from?: string; to?: string; category?: string; sentiment?: string }
+  | { scope: 'search'; q?: string; category?: string; sentiment?: string; accountId?: string }
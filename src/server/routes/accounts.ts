@@ -0,0 +1,321 @@
+import { Router } from 'express';
+import { Prisma, WeChatAccount } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { PROVIDER_NAMES } from '../services/providers';
+import { SearchIndexService } from '../services/SearchIndexService';
+import { SubscriptionService } from '../services/SubscriptionService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const searchIndex = new SearchIndexService();
+const subscriptions = new SubscriptionService();
+
+interface AccountRequest {
+  name?: string;
+  displayName?: string;
+  description?: string | null;
+  isActive?: boolean;
+  provider?: string | null;
+  model?: string | null;
+  language?: string | null;
+  promptTemplateId?: string | null;
+  extractionSchemaId?: string | null;
+  sourceType?: string | null;
+  source?: string | null;
+  schedule?: string | null;
+}
+
+const withArticleCount = {
+  _count: {
+    select: { articles: true }
+  }
+} as const;
+
+// 可为null的文本字段，null或空字符串表示清除
+const NULLABLE_TEXT_FIELDS = [
+  'description', 'provider', 'model', 'language', 'promptTemplateId',
+  'extractionSchemaId', 'sourceType', 'source', 'schedule'
+] as const;
+
+/**
+ * 校验请求体中字段的类型，避免对非字符串调用 trim 等方法，返回错误信息
+ */
+function validateAccountFields(body: AccountRequest): string | null {
+  for (const field of ['name', 'displayName'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') {
+      return `${field} 必须是字符串`;
+    }
+  }
+  for (const field of NULLABLE_TEXT_FIELDS) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return `${field} 必须是字符串或null`;
+    }
+  }
+  return null;
+}
+
+// metadata 以JSON字符串保存，返回时解析为对象
+function toAccountResponse<T extends WeChatAccount>(account: T) {
+  return { ...account, metadata: account.metadata ? JSON.parse(account.metadata) : null };
+}
+
+/**
+ * 校验账户上引用的模型提供方、提示词模板、提取字段定义和订阅配置，返回错误信息
+ * 更新时传入当前账户，以便与未修改的订阅字段一起校验
+ */
+async function validateAccountReferences(body: AccountRequest, current?: WeChatAccount): Promise<string | null> {
+  if (body.provider && !PROVIDER_NAMES.includes(body.provider)) {
+    return `不支持的模型提供方: ${body.provider}`;
+  }
+
+  if (body.promptTemplateId && !(await prisma.promptTemplate.findUnique({ where: { id: body.promptTemplateId } }))) {
+    return `提示词模板不存在: ${body.promptTemplateId}`;
+  }
+
+  if (body.extractionSchemaId && !(await prisma.extractionSchema.findUnique({ where: { id: body.extractionSchemaId } }))) {
+    return `提取字段定义不存在: ${body.extractionSchemaId}`;
+  }
+
+  return subscriptions.validateSettings(body, current);
+}
+
+/**
+ * 只取请求中出现的可更新字段
+ */
+function toAccountData(body: AccountRequest): Prisma.WeChatAccountUncheckedUpdateInput {
+  const data: Prisma.WeChatAccountUncheckedUpdateInput = {};
+
+  if (body.displayName !== undefined) data.displayName = body.displayName.trim();
+  if (body.description !== undefined) data.description = body.description;
+  if (body.isActive !== undefined) data.isActive = Boolean(body.isActive);
+  if (body.provider !== undefined) data.provider = body.provider || null;
+  if (body.model !== undefined) data.model = body.model || null;
+  if (body.language !== undefined) data.language = body.language || null;
+  if (body.promptTemplateId !== undefined) data.promptTemplateId = body.promptTemplateId || null;
+  if (body.extractionSchemaId !== undefined) data.extractionSchemaId = body.extractionSchemaId || null;
+  if (body.sourceType !== undefined) data.sourceType = body.sourceType || null;
+  if (body.source !== undefined) data.source = body.source?.trim() || null;
+  if (body.schedule !== undefined) data.schedule = body.schedule?.trim() || null;
+
+  return data;
+}
+
+/**
+ * GET /api/accounts
+ * 获取所有公众号及其文章数量
+ */
+router.get('/', async (req, res) => {
+  try {
+    const accounts = await prisma.weChatAccount.findMany({
+      include: withArticleCount,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: accounts.map(toAccountResponse)
+    });
+
+  } catch (error) {
+    logger.error('获取公众号列表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/accounts/:id
+ * 获取公众号详情
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const account = await prisma.weChatAccount.findUnique({
+      where: { id: req.params.id },
+      include: withArticleCount
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        error: '公众号不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toAccountResponse(account)
+    });
+
+  } catch (error) {
+    logger.error('获取公众号详情失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/accounts
+ * 创建新公众号
+ */
+router.post('/', async (req, res) => {
+  try {
+    const body: AccountRequest = req.body;
+    const fieldError = validateAccountFields(body);
+    if (fieldError) {
+      return res.status(400).json({
+        success: false,
+        error: fieldError
+      });
+    }
+
+    const name = body.name?.trim();
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: '公众号名称不能为空'
+      });
+    }
+
+    const referenceError = await validateAccountReferences(body);
+    if (referenceError) {
+      return res.status(400).json({
+        success: false,
+        error: referenceError
+      });
+    }
+
+    if (await prisma.weChatAccount.findUnique({ where: { name } })) {
+      return res.status(409).json({
+        success: false,
+        error: `公众号 ${name} 已存在`
+      });
+    }
+
+    const account = await prisma.weChatAccount.create({
+      data: {
+        ...toAccountData(body),
+        name,
+        displayName: body.displayName?.trim() || name
+      } as Prisma.WeChatAccountUncheckedCreateInput,
+      include: withArticleCount
+    });
+
+    logger.info(`创建公众号: ${name}`);
+    res.status(201).json({
+      success: true,
+      data: toAccountResponse(account)
+    });
+
+  } catch (error) {
+    logger.error('创建公众号失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * PUT /api/accounts/:id
+ * 更新公众号信息，名称创建后不可修改
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const body: AccountRequest = req.body;
+    const fieldError = validateAccountFields(body);
+    if (fieldError) {
+      return res.status(400).json({
+        success: false,
+        error: fieldError
+      });
+    }
+
+    if (body.displayName !== undefined && !body.displayName.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: '显示名称不能为空'
+      });
+    }
+
+    const current = await prisma.weChatAccount.findUnique({ where: { id: req.params.id } });
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: '公众号不存在'
+      });
+    }
+
+    const referenceError = await validateAccountReferences(body, current);
+    if (referenceError) {
+      return res.status(400).json({
+        success: false,
+        error: referenceError
+      });
+    }
+
+    const account = await prisma.weChatAccount.update({
+      where: { id: req.params.id },
+      data: toAccountData(body),
+      include: withArticleCount
+    });
+
+    res.json({
+      success: true,
+      data: toAccountResponse(account)
+    });
+
+  } catch (error) {
+    logger.error('更新公众号失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * DELETE /api/accounts/:id
+ * 删除公众号，同时删除其全部文章和总结
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const account = await prisma.weChatAccount.findUnique({
+      where: { id: req.params.id },
+      include: { articles: { select: { id: true } } }
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        error: '公众号不存在'
+      });
+    }
+
+    // 文章和总结由数据库级联删除，全文索引不在Prisma管理范围内需单独清理
+    await prisma.weChatAccount.delete({ where: { id: account.id } });
+    for (const article of account.articles) {
+      await searchIndex.removeArticle(article.id);
+    }
+
+    logger.info(`删除公众号 ${account.name}，及其 ${account.articles.length} 篇文章`);
+    res.json({
+      success: true,
+      message: `已删除公众号及其 ${account.articles.length} 篇文章`
+    });
+
+  } catch (error) {
+    logger.error('删除公众号失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
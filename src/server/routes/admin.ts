@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import { SummaryCacheService } from '../services/SummaryCacheService';
+import { SearchIndexService } from '../services/SearchIndexService';
+import { BUILTIN_PROMPT } from '../services/SummarizerService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const summaryCache = new SummaryCacheService();
+const searchIndex = new SearchIndexService();
+
+/**
+ * GET /api/admin/summary-cache
+ * 按提示词版本统计总结缓存
+ */
+router.get('/summary-cache', async (req, res) => {
+  try {
+    const versions = await summaryCache.stats();
+
+    res.json({
+      success: true,
+      data: {
+        builtinPromptVersion: BUILTIN_PROMPT.version,
+        versions
+      }
+    });
+
+  } catch (error) {
+    logger.error('获取总结缓存统计失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/summary-cache?promptVersion=xxx
+ * 清除指定提示词版本的总结缓存；需显式传入 all=true 才会清除全部
+ */
+router.delete('/summary-cache', async (req, res) => {
+  try {
+    const promptVersion = req.query.promptVersion as string | undefined;
+    const all = req.query.all === 'true';
+
+    if (!promptVersion && !all) {
+      return res.status(400).json({
+        success: false,
+        error: '请指定 promptVersion，或传入 all=true 清除全部缓存'
+      });
+    }
+
+    const deleted = await summaryCache.invalidate(promptVersion);
+
+    res.json({
+      success: true,
+      data: { deleted }
+    });
+
+  } catch (error) {
+    logger.error('清除总结缓存失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/search-index/rebuild
+ * 重建文章全文索引
+ */
+router.post('/search-index/rebuild', async (req, res) => {
+  try {
+    const indexed = await searchIndex.rebuild();
+
+    res.json({
+      success: true,
+      data: { indexed }
+    });
+
+  } catch (error) {
+    logger.error('重建全文索引失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,388 @@
+import { Response, Router } from 'express';
+import { ArticleAsset, Summary, WeChatAccount } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { SearchIndexService } from '../services/SearchIndexService';
+import { ArticleAssetService, coverPath } from '../services/ArticleAssetService';
+import { SubscriptionError, SubscriptionService } from '../services/SubscriptionService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const searchIndex = new SearchIndexService();
+const subscriptions = new SubscriptionService();
+const assets = new ArticleAssetService();
+
+// 列表中只需要知道是否有封面
+const coverOnly = { where: { type: 'cover' }, select: { id: true }, take: 1 } as const;
+
+function withCover<T extends { id: string; assets: unknown[] }>(article: T) {
+  const { assets: cover, ...rest } = article;
+  return { ...rest, cover: cover.length > 0 ? coverPath(article.id) : null };
+}
+
+// 文章和账户的 metadata、总结的关键点以JSON字符串保存，返回时解析
+function withMetadata<T extends { metadata: string | null; account: WeChatAccount; summary: Summary | null }>(article: T) {
+  return {
+    ...article,
+    metadata: article.metadata ? JSON.parse(article.metadata) : null,
+    account: { ...article.account, metadata: article.account.metadata ? JSON.parse(article.account.metadata) : null },
+    summary: article.summary && { ...article.summary, keyPoints: JSON.parse(article.summary.keyPoints) as string[] }
+  };
+}
+
+function toAssetResponse(asset: ArticleAsset) {
+  return {
+    id: asset.id,
+    type: asset.type,
+    position: asset.position,
+    url: asset.url,
+    caption: asset.caption,
+    metadata: asset.metadata ? JSON.parse(asset.metadata) : null,
+    downloaded: Boolean(asset.localPath),
+    mimeType: asset.mimeType,
+    size: asset.size,
+    file: `/api/articles/${asset.articleId}/assets/${asset.id}/file`
+  };
+}
+
+/**
+ * 返回资源文件：优先使用本地文件，未下载的微信图片由服务端代为请求（微信CDN禁止外站引用）
+ * 其余资源不跳转到保存的原地址，客户端可直接使用资源的 url
+ */
+async function sendAsset(asset: ArticleAsset, res: Response) {
+  // 内容来自外部网页，禁止浏览器猜测类型或执行其中的脚本（如SVG）
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+
+  const file = await assets.resolveFile(asset);
+  if (file) {
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    return res.type(asset.mimeType ?? 'application/octet-stream').sendFile(file);
+  }
+
+  if (assets.shouldProxy(asset)) {
+    const { stream, mimeType } = await assets.fetchRemote(asset);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.type(mimeType);
+    stream.on('error', () => res.destroy());
+    stream.pipe(res);
+    return;
+  }
+
+  res.status(404).json({
+    success: false,
+    error: '该资源没有可访问的文件'
+  });
+}
+
+// 手动抓取最多向前追溯的天数
+const MAX_FETCH_DAYS = 30;
+
+/**
+ * GET /api/articles?accountId=xxx
+ * 分页获取文章列表，可按公众号筛选
+ */
+router.get('/', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const accountId = req.query.accountId as string | undefined;
+    const where = accountId ? { accountId } : {};
+
+    const [articles, total] = await Promise.all([
+      prisma.article.findMany({
+        where,
+        include: {
+          summary: true,
+          account: true,
+          assets: coverOnly
+        },
+        orderBy: { publishDate: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.article.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: articles.map(article => withCover(withMetadata(article))),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    logger.error('获取文章列表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/articles/search?q=xxx&category=xxx&sentiment=xxx
+ * 全文检索文章标题、正文、总结和关键点，按相关度排序并返回高亮摘录
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const q = (req.query.q as string | undefined)?.trim();
+    const category = req.query.category as string | undefined;
+    const sentiment = req.query.sentiment as string | undefined;
+    const accountId = req.query.accountId as string | undefined;
+
+    if (!q && !category && !sentiment && !accountId) {
+      return res.status(400).json({
+        success: false,
+        error: '请提供搜索关键词或筛选条件'
+      });
+    }
+
+    const { hits, total } = await searchIndex.search({
+      q,
+      category,
+      sentiment,
+      accountId,
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    const articles = await prisma.article.findMany({
+      where: { id: { in: hits.map(hit => hit.articleId) } },
+      include: {
+        summary: true,
+        account: true,
+        assets: coverOnly
+      }
+    });
+    // 与列表返回相同的结构；正文不返回，高亮摘录已给出匹配片段
+    const articlesById = new Map(articles.map(({ content, markdown, ...article }) => [article.id, article]));
+
+    res.json({
+      success: true,
+      data: hits
+        .filter(hit => articlesById.has(hit.articleId))
+        .map(hit => ({
+          ...withCover(withMetadata(articlesById.get(hit.articleId)!)),
+          score: hit.score,
+          highlight: hit.highlight
+        })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    logger.error('搜索文章失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/articles/fetch/:accountId
+ * 立即从公众号的订阅来源抓取最近 days 天发布的文章，加入后台批量任务
+ */
+router.post('/fetch/:accountId', async (req, res) => {
+  try {
+    const days = Number(req.body?.days ?? 1);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_FETCH_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `days 需在 1 到 ${MAX_FETCH_DAYS} 之间`
+      });
+    }
+
+    const account = await prisma.weChatAccount.findUnique({ where: { id: req.params.accountId } });
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        error: '公众号不存在'
+      });
+    }
+
+    const result = await subscriptions.fetchAccount(account, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+    res.status(result.jobId ? 202 : 200).json({
+      success: true,
+      data: {
+        message: result.jobId
+          ? `发现 ${result.discovered} 篇文章，已将 ${result.queued} 篇新文章加入批量任务`
+          : `发现 ${result.discovered} 篇文章，没有需要抓取的新文章`,
+        articles: result.queued,
+        jobId: result.jobId
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    logger.error('抓取公众号文章失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/articles/:id
+ * 获取文章详情
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const article = await prisma.article.findUnique({
+      where: { id: req.params.id },
+      include: {
+        summary: true,
+        account: true,
+        assets: { orderBy: { position: 'asc' } }
+      }
+    });
+
+    if (!article) {
+      return res.status(404).json({
+        success: false,
+        error: '文章不存在'
+      });
+    }
+
+    const hasCover = article.assets.some(asset => asset.type === 'cover');
+    res.json({
+      success: true,
+      data: {
+        ...withMetadata(article),
+        assets: article.assets.map(toAssetResponse),
+        cover: hasCover ? coverPath(article.id) : null
+      }
+    });
+
+  } catch (error) {
+    logger.error('获取文章详情失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/articles/:id/assets
+ * 获取文章中的图片、封面、视频、音频和小程序卡片，按出现顺序排列
+ */
+router.get('/:id/assets', async (req, res) => {
+  try {
+    const items = await assets.list(req.params.id);
+
+    res.json({
+      success: true,
+      data: items.map(toAssetResponse)
+    });
+
+  } catch (error) {
+    logger.error('获取文章资源失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/articles/:id/cover
+ * 获取文章封面图
+ */
+router.get('/:id/cover', async (req, res) => {
+  try {
+    const cover = await assets.getCover(req.params.id);
+    if (!cover) {
+      return res.status(404).json({
+        success: false,
+        error: '文章没有封面'
+      });
+    }
+
+    await sendAsset(cover, res);
+
+  } catch (error) {
+    logger.error('获取文章封面失败:', error);
+    res.status(502).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取封面失败'
+    });
+  }
+});
+
+/**
+ * GET /api/articles/:id/assets/:assetId/file
+ * 获取资源文件
+ */
+router.get('/:id/assets/:assetId/file', async (req, res) => {
+  try {
+    const asset = await assets.get(req.params.id, req.params.assetId);
+    if (!asset) {
+      return res.status(404).json({
+        success: false,
+        error: '资源不存在'
+      });
+    }
+
+    await sendAsset(asset, res);
+
+  } catch (error) {
+    logger.error('获取资源文件失败:', error);
+    res.status(502).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取资源文件失败'
+    });
+  }
+});
+
+/**
+ * DELETE /api/articles/:id
+ * 删除文章及其总结
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const article = await prisma.article.findUnique({ where: { id: req.params.id } });
+    if (!article) {
+      return res.status(404).json({
+        success: false,
+        error: '文章不存在'
+      });
+    }
+
+    await prisma.article.delete({ where: { id: article.id } });
+    await searchIndex.removeArticle(article.id);
+
+    logger.info(`删除文章: ${article.title}`);
+    res.json({
+      success: true,
+      message: '文章已删除'
+    });
+
+  } catch (error) {
+    logger.error('删除文章失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
@@ -1,67 +1,166 @@
 import { Router } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { WeChatUrlExtractorService } from '../services/WeChatUrlExtractorService';
-import { DeepSeekService } from '../services/DeepSeekService';
+import { BatchJob } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { IngestInput, WeChatUrlExtractorService } from '../services/WeChatUrlExtractorService';
+import { ArticleProcessingService, BatchItemResult } from '../services/ArticleProcessingService';
+import { BatchJobItemStatus, BatchJobService } from '../services/BatchJobService';
+import { batchJobWorker } from '../services/BatchJobWorker';
+import { batchJobEvents, BatchProgressEvent, toItemEvent, toJobEvent } from '../services/BatchJobEvents';
+import { getDefaultProviderName, PROVIDER_NAMES } from '../services/providers';
+import { PromptTemplateService } from '../services/PromptTemplateService';
+import { ExtractionSchemaService } from '../services/ExtractionSchemaService';
+import { TaskLogService } from '../services/TaskLogService';
+import { coverPath } from '../services/ArticleAssetService';
 import { logger } from '../utils/logger';
+import { collectArticleUrls, CollectedUrls, extractArticleUrls } from '../utils/articleUrl';
 
 const router = Router();
-const prisma = new PrismaClient();
 const urlExtractor = new WeChatUrlExtractorService();
-const deepSeekService = new DeepSeekService();
+const processor = new ArticleProcessingService(urlExtractor);
+const jobService = new BatchJobService();
+const promptTemplates = new PromptTemplateService();
+const extractionSchemas = new ExtractionSchemaService();
+const taskLogs = new TaskLogService();
+
+// 后台任务不占用HTTP连接，因此允许比同步接口更大的批量
+const maxJobUrls = parseInt(process.env.BATCH_JOB_MAX_URLS || '500');
 
 interface BatchSummarizeRequest {
-  urls: string[];
+  urls?: string[];
+  text?: string; // 聊天记录、转发消息等自由文本，从中提取文章链接
   accountName?: string;
+  provider?: string;
+  model?: string;
+  force?: boolean;
+  promptTemplateId?: string;
+  language?: string;
+  extractionSchemaId?: string;
+}
+
+interface IngestRequest extends Omit<BatchSummarizeRequest, 'urls' | 'text'> {
+  sources?: IngestInput[];
 }
 
 interface BatchSummarizeResponse {
   success: boolean;
-  results: Array<{
-    url: string;
-    title: string;
-    summary?: {
-      summary: string;
-      keyPoints: string[];
-      sentiment: string;
-      category: string;
-    };
-    error?: string;
-  }>;
+  results: BatchItemResult[];
   totalProcessed: number;
   successCount: number;
   failCount: number;
+  duplicates: number;
+}
+
+const INGEST_TYPES: IngestInput['type'][] = ['html', 'mhtml', 'text'];
+
+/**
+ * 校验上传的文章来源，格式不正确时返回错误信息
+ */
+function validateIngestSources(sources: unknown): string | null {
+  if (!Array.isArray(sources) || sources.length === 0) {
+    return '请提供要导入的页面文件或文章正文';
+  }
+  if (sources.length > 20) {
+    return '单次最多导入20篇文章';
+  }
+
+  for (const [index, source] of sources.entries()) {
+    const label = source?.filename || `第${index + 1}项`;
+    if (!INGEST_TYPES.includes(source?.type)) {
+      return `${label}: 不支持的类型，可选 ${INGEST_TYPES.join('、')}`;
+    }
+    if (typeof source.content !== 'string' || !source.content.trim()) {
+      return `${label}: 内容为空`;
+    }
+    for (const field of ['filename', 'title', 'url']) {
+      if (source[field] !== undefined && typeof source[field] !== 'string') {
+        return `${label}: ${field} 必须是字符串`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 合并链接列表和自由文本中的链接，规范化并去重
+ * 输入格式不正确时返回null
+ */
+function collectRequestUrls(urls: unknown, text: unknown): CollectedUrls | null {
+  if (urls !== undefined && (!Array.isArray(urls) || urls.some(url => typeof url !== 'string'))) {
+    return null;
+  }
+  if (text !== undefined && typeof text !== 'string') {
+    return null;
+  }
+
+  const fromText = text ? extractArticleUrls(text) : { urls: [], duplicates: 0 };
+  const collected = collectArticleUrls([...(urls ?? []), ...fromText.urls]);
+  return { ...collected, duplicates: collected.duplicates + fromText.duplicates };
 }
 
 /**
  * POST /api/batch-summarize
- * 批量总结微信文章
+ * 批量总结文章（公众号及其他网站）
  */
 router.post('/', async (req, res) => {
   try {
-    const { urls, accountName = '批量导入' }: BatchSummarizeRequest = req.body;
+    const {
+      urls,
+      text,
+      accountName = '批量导入',
+      provider,
+      model,
+      force = false,
+      promptTemplateId,
+      language,
+      extractionSchemaId
+    }: BatchSummarizeRequest = req.body;
 
     // 验证输入
-    if (!urls || !Array.isArray(urls) || urls.length === 0) {
+    const collected = collectRequestUrls(urls, text);
+    if (!collected || collected.urls.length + collected.invalid.length === 0) {
       return res.status(400).json({
         success: false,
-        error: '请提供有效的URL数组'
+        error: '请提供有效的URL数组或包含文章链接的文本'
       });
     }
 
-    if (urls.length > 20) {
+    if (collected.urls.length > 20) {
       return res.status(400).json({
         success: false,
         error: '单次最多处理20个URL'
       });
     }
 
-    logger.info(`开始批量处理 ${urls.length} 个微信文章URL`);
+    if (provider && !PROVIDER_NAMES.includes(provider)) {
+      return res.status(400).json({
+        success: false,
+        error: `不支持的模型提供方: ${provider}`
+      });
+    }
+
+    if (promptTemplateId && !(await promptTemplates.getTemplate(promptTemplateId))) {
+      return res.status(400).json({
+        success: false,
+        error: `提示词模板不存在: ${promptTemplateId}`
+      });
+    }
+
+    if (extractionSchemaId && !(await extractionSchemas.getSchema(extractionSchemaId))) {
+      return res.status(400).json({
+        success: false,
+        error: `提取字段定义不存在: ${extractionSchemaId}`
+      });
+    }
+
+    logger.info(`开始批量处理 ${collected.urls.length} 个文章URL，跳过重复链接 ${collected.duplicates} 个`);
+    const startTime = new Date();
 
-    // 第一步：提取文章内容
-    const extractedArticles = await urlExtractor.extractBatchWeChatArticles(urls);
+    // 第一步：提取文章内容，无效链接也交给提取器以便在结果中列出
+    const extractedArticles = await urlExtractor.extractBatchWeChatArticles([...collected.urls, ...collected.invalid]);
     
     // 第二步：对成功提取的文章进行AI总结
-    const results = [];
+    const results: BatchItemResult[] = [];
     let successCount = 0;
     let failCount = 0;
 
@@ -70,90 +169,28 @@ router.post('/', async (req, res) => {
         results.push({
           url: article.url,
           title: article.title,
-          error: article.error
+          error: article.error,
+          errorCode: article.errorCode,
+          retryable: article.retryable
         });
         failCount++;
         continue;
       }
 
-      try {
-        // 使用DeepSeek进行总结
-        const summaryResult = await deepSeekService.summarizeArticle(
-          article.title,
-          article.content
-        );
-
-        // 查找或创建账户
-        const account = await prisma.weChatAccount.upsert({
-          where: { name: accountName },
-          update: {},
-          create: {
-            name: accountName,
-            displayName: accountName,
-            description: '通过批量URL导入创建'
-          }
-        });
-
-        // 保存文章到数据库（如果URL已存在则更新）
-        const savedArticle = await prisma.article.upsert({
-          where: { url: article.url },
-          update: {
-            title: article.title,
-            content: article.content,
-            publishDate: article.publishDate || new Date(),
-            author: article.author || accountName,
-            accountId: account.id
-          },
-          create: {
-            title: article.title,
-            content: article.content,
-            url: article.url,
-            publishDate: article.publishDate || new Date(),
-            author: article.author || accountName,
-            accountId: account.id
-          }
-        });
-
-        // 保存总结到数据库（如果已存在则更新）
-        await prisma.summary.upsert({
-          where: { articleId: savedArticle.id },
-          update: {
-            content: summaryResult.content,
-            keyPoints: JSON.stringify(summaryResult.keyPoints),
-            sentiment: summaryResult.sentiment,
-            category: summaryResult.category
-          },
-          create: {
-            articleId: savedArticle.id,
-            content: summaryResult.content,
-            keyPoints: JSON.stringify(summaryResult.keyPoints),
-            sentiment: summaryResult.sentiment,
-            category: summaryResult.category
-          }
-        });
-
-        results.push({
-          url: article.url,
-          title: article.title,
-          summary: {
-            summary: summaryResult.content,
-            keyPoints: summaryResult.keyPoints,
-            sentiment: summaryResult.sentiment,
-            category: summaryResult.category
-          }
-        });
-
-        successCount++;
-        logger.info(`成功处理文章: ${article.title}`);
-
-      } catch (error) {
-        logger.error(`总结文章失败 ${article.url}:`, error);
-        results.push({
-          url: article.url,
-          title: article.title,
-          error: `总结失败: ${error instanceof Error ? error.message : '未知错误'}`
-        });
+      const { result } = await processor.summarizeAndSave(article, {
+        accountName,
+        provider,
+        model,
+        force,
+        promptTemplateId,
+        language,
+        extractionSchemaId
+      });
+      results.push(result);
+      if (result.error) {
         failCount++;
+      } else {
+        successCount++;
       }
 
       // 添加延迟避免API限制
@@ -163,12 +200,17 @@ router.post('/', async (req, res) => {
     const response: BatchSummarizeResponse = {
       success: true,
       results,
-      totalProcessed: urls.length,
+      totalProcessed: results.length,
       successCount,
-      failCount
+      failCount,
+      duplicates: collected.duplicates
     };
 
     logger.info(`批量处理完成，成功: ${successCount}，失败: ${failCount}`);
+    await taskLogs.record('batch', accountName, startTime, {
+      message: `同步批量处理完成，成功: ${successCount}，失败: ${failCount}`,
+      details: { total: results.length, successCount, failCount, duplicates: collected.duplicates }
+    });
     res.json(response);
 
   } catch (error) {
@@ -180,6 +222,20 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/batch-summarize/providers
+ * 获取可用的模型提供方
+ */
+router.get('/providers', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      providers: PROVIDER_NAMES,
+      default: getDefaultProviderName()
+    }
+  });
+});
+
 /**
  * GET /api/batch-summarize/history
  * 获取批量处理历史
@@ -199,7 +255,8 @@ router.get('/history', async (req, res) => {
         },
         include: {
           summary: true,
-          account: true
+          account: true,
+          assets: { where: { type: 'cover' }, select: { id: true }, take: 1 }
         },
         orderBy: { createdAt: 'desc' },
         skip,
@@ -223,11 +280,20 @@ router.get('/history', async (req, res) => {
         author: article.author,
         publishDate: article.publishDate,
         createdAt: article.createdAt,
+        cover: article.assets.length > 0 ? coverPath(article.id) : null,
         summary: article.summary ? {
           summary: article.summary.content,
           keyPoints: JSON.parse(article.summary.keyPoints),
           sentiment: article.summary.sentiment,
-          category: article.summary.category
+          category: article.summary.category,
+          provider: article.summary.provider,
+          model: article.summary.model,
+          coverage: article.summary.coverage,
+          parseStatus: article.summary.parseStatus,
+          promptVersion: article.summary.promptVersion,
+          promptTemplateId: article.summary.promptTemplateId,
+          fields: article.summary.extractedFields ? JSON.parse(article.summary.extractedFields) : null,
+          extractionSchemaId: article.summary.extractionSchemaId
         } : null
       })),
       pagination: {
@@ -247,4 +313,552 @@ router.get('/history', async (req, res) => {
   }
 });
 
+/**
+ * 将任务转换为API响应结构
+ */
+function toJobResponse(job: BatchJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    accountName: job.accountName,
+    provider: job.provider,
+    model: job.model,
+    force: job.force,
+    promptTemplateId: job.promptTemplateId,
+    language: job.language,
+    extractionSchemaId: job.extractionSchemaId,
+    total: job.total,
+    successCount: job.successCount,
+    failCount: job.failCount,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    createdAt: job.createdAt
+  };
+}
+
+/**
+ * POST /api/batch-summarize/extract-urls
+ * 从粘贴的文本或文件内容中提取文章链接并去重，供提交前预览
+ */
+router.post('/extract-urls', (req, res) => {
+  const { text } = req.body;
+  if (typeof text !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: '请提供文本内容'
+    });
+  }
+
+  const { urls, duplicates } = extractArticleUrls(text);
+  res.json({
+    success: true,
+    data: { urls, duplicates }
+  });
+});
+
+/**
+ * POST /api/batch-summarize/ingest
+ * 导入已保存的 HTML、MHTML 页面或粘贴的正文，不抓取网页，直接提取并总结
+ */
+router.post('/ingest', async (req, res) => {
+  try {
+    const {
+      sources,
+      accountName = '批量导入',
+      provider,
+      model,
+      force = false,
+      promptTemplateId,
+      language,
+      extractionSchemaId
+    }: IngestRequest = req.body;
+
+    const sourceError = validateIngestSources(sources);
+    if (sourceError) {
+      return res.status(400).json({
+        success: false,
+        error: sourceError
+      });
+    }
+
+    if (provider && !PROVIDER_NAMES.includes(provider)) {
+      return res.status(400).json({
+        success: false,
+        error: `不支持的模型提供方: ${provider}`
+      });
+    }
+
+    if (promptTemplateId && !(await promptTemplates.getTemplate(promptTemplateId))) {
+      return res.status(400).json({
+        success: false,
+        error: `提示词模板不存在: ${promptTemplateId}`
+      });
+    }
+
+    if (extractionSchemaId && !(await extractionSchemas.getSchema(extractionSchemaId))) {
+      return res.status(400).json({
+        success: false,
+        error: `提取字段定义不存在: ${extractionSchemaId}`
+      });
+    }
+
+    logger.info(`开始导入 ${sources!.length} 篇上传的文章`);
+    const startTime = new Date();
+    const results: BatchItemResult[] = [];
+    let successCount = 0;
+    let failCount = 0;
+
+    for (const source of sources!) {
+      const article = await urlExtractor.ingestDocument(source);
+      if (article.error) {
+        results.push({
+          url: article.url,
+          title: source.filename || article.title,
+          error: article.error,
+          errorCode: article.errorCode,
+          retryable: article.retryable
+        });
+        failCount++;
+        continue;
+      }
+
+      const { result } = await processor.summarizeAndSave(article, {
+        accountName,
+        provider,
+        model,
+        force,
+        promptTemplateId,
+        language,
+        extractionSchemaId
+      });
+      results.push(result);
+      if (result.error) {
+        failCount++;
+      } else {
+        successCount++;
+      }
+    }
+
+    logger.info(`导入完成，成功: ${successCount}，失败: ${failCount}`);
+    await taskLogs.record('batch', accountName, startTime, {
+      message: `导入上传的文章完成，成功: ${successCount}，失败: ${failCount}`,
+      details: { total: results.length, successCount, failCount }
+    });
+
+    res.json({
+      success: true,
+      results,
+      totalProcessed: results.length,
+      successCount,
+      failCount
+    });
+
+  } catch (error) {
+    logger.error('导入上传的文章失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/batch-summarize/jobs
+ * 提交批量总结任务，立即返回任务ID，由后台执行器处理
+ */
+router.post('/jobs', async (req, res) => {
+  try {
+    const {
+      urls,
+      text,
+      accountName = '批量导入',
+      provider,
+      model,
+      force = false,
+      promptTemplateId,
+      language,
+      extractionSchemaId
+    }: BatchSummarizeRequest = req.body;
+
+    const collected = collectRequestUrls(urls, text);
+    if (!collected) {
+      return res.status(400).json({
+        success: false,
+        error: '请提供有效的URL数组或包含文章链接的文本'
+      });
+    }
+
+    if (collected.urls.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: '未识别到有效的文章链接'
+      });
+    }
+
+    if (collected.urls.length > maxJobUrls) {
+      return res.status(400).json({
+        success: false,
+        error: `单个任务最多处理${maxJobUrls}个URL`
+      });
+    }
+
+    if (provider && !PROVIDER_NAMES.includes(provider)) {
+      return res.status(400).json({
+        success: false,
+        error: `不支持的模型提供方: ${provider}`
+      });
+    }
+
+    if (promptTemplateId && !(await promptTemplates.getTemplate(promptTemplateId))) {
+      return res.status(400).json({
+        success: false,
+        error: `提示词模板不存在: ${promptTemplateId}`
+      });
+    }
+
+    if (extractionSchemaId && !(await extractionSchemas.getSchema(extractionSchemaId))) {
+      return res.status(400).json({
+        success: false,
+        error: `提取字段定义不存在: ${extractionSchemaId}`
+      });
+    }
+
+    const job = await jobService.createJob(collected.urls, {
+      accountName,
+      provider,
+      model,
+      force,
+      promptTemplateId,
+      language,
+      extractionSchemaId
+    });
+    batchJobWorker.wake();
+
+    res.status(202).json({
+      success: true,
+      data: {
+        ...toJobResponse(job),
+        duplicates: collected.duplicates,
+        invalid: collected.invalid
+      }
+    });
+
+  } catch (error) {
+    logger.error('创建批量任务失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/batch-summarize/jobs
+ * 获取批量任务列表
+ */
+router.get('/jobs', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const [jobs, total] = await jobService.listJobs(skip, limit);
+
+    res.json({
+      success: true,
+      data: jobs.map(toJobResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    logger.error('获取批量任务列表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/batch-summarize/jobs/:id
+ * 获取任务状态及每个任务项的进度
+ */
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '任务不存在'
+      });
+    }
+
+    const items = await jobService.getJobItems(job.id);
+
+    res.json({
+      success: true,
+      data: {
+        ...toJobResponse(job),
+        items: items.map(item => ({
+          id: item.id,
+          position: item.position,
+          url: item.url,
+          status: item.status,
+          title: item.title,
+          error: item.error,
+          attempts: item.attempts,
+          extractAttempts: item.extractAttempts,
+          summarizeAttempts: item.summarizeAttempts,
+          articleId: item.articleId
+        }))
+      }
+    });
+
+  } catch (error) {
+    logger.error('获取批量任务状态失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/batch-summarize/jobs/:id/results
+ * 获取任务结果，结构与同步接口的响应一致
+ */
+router.get('/jobs/:id/results', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '任务不存在'
+      });
+    }
+
+    const items = await jobService.getJobItems(job.id);
+    const finishedItems = items.filter(item => item.status === 'saved' || item.status === 'failed');
+
+    res.json({
+      success: true,
+      status: job.status,
+      results: finishedItems.map(item => jobService.toItemResult(item)),
+      totalProcessed: job.total,
+      successCount: job.successCount,
+      failCount: job.failCount
+    });
+
+  } catch (error) {
+    logger.error('获取批量任务结果失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/batch-summarize/jobs/:id/events
+ * 通过Server-Sent Events推送任务进度：先发送当前快照，再推送后续状态变化
+ */
+router.get('/jobs/:id/events', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '任务不存在'
+      });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (event: BatchProgressEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    const isFinished = (status: string) => status === 'completed' || status === 'cancelled';
+
+    // 先订阅再读取快照，避免遗漏两者之间发生的事件
+    const buffered: BatchProgressEvent[] = [];
+    let streaming = false;
+    let closed = false;
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    const deliver = (event: BatchProgressEvent) => {
+      if (closed) return;
+      send(event);
+      if (event.type === 'job' && isFinished(event.status)) {
+        close();
+      }
+    };
+    const unsubscribe = batchJobEvents.subscribe(job.id, event => {
+      if (streaming) {
+        deliver(event);
+      } else {
+        buffered.push(event);
+      }
+    });
+    req.on('close', close);
+
+    const [current, items] = await Promise.all([
+      jobService.getJob(job.id),
+      jobService.getJobItems(job.id)
+    ]);
+
+    items.forEach(item => {
+      const finished = item.status === 'saved' || item.status === 'failed';
+      send(toItemEvent(item, item.status as BatchJobItemStatus, finished ? jobService.toItemResult(item) : undefined));
+    });
+    if (!current) {
+      return close();
+    }
+    deliver(toJobEvent(current));
+    buffered.forEach(deliver);
+    streaming = true;
+
+  } catch (error) {
+    logger.error('推送批量任务进度失败:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : '服务器内部错误'
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+/**
+ * POST /api/batch-summarize/jobs/:id/cancel
+ * 取消任务
+ */
+router.post('/jobs/:id/cancel', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '任务不存在'
+      });
+    }
+
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      return res.status(409).json({
+        success: false,
+        error: '任务已结束，无法取消'
+      });
+    }
+
+    const cancelled = await jobService.cancelJob(job.id);
+
+    res.json({
+      success: true,
+      data: toJobResponse(cancelled)
+    });
+
+  } catch (error) {
+    logger.error('取消批量任务失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/batch-summarize/jobs/:id/retry
+ * 重试任务中失败的任务项
+ */
+router.post('/jobs/:id/retry', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '任务不存在'
+      });
+    }
+
+    const { job: retried, requeued } = await jobService.retryFailedItems(job.id);
+    if (requeued > 0) {
+      batchJobWorker.wake();
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...toJobResponse(retried),
+        requeued
+      }
+    });
+
+  } catch (error) {
+    logger.error('重试批量任务失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/batch-summarize/jobs/:id/resume
+ * 继续因微信验证暂停的任务，验证失败的任务项会重新处理
+ */
+router.post('/jobs/:id/resume', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '任务不存在'
+      });
+    }
+
+    if (job.status !== 'paused') {
+      return res.status(409).json({
+        success: false,
+        error: '任务未暂停'
+      });
+    }
+
+    const { job: resumed, requeued } = await jobService.resumeJob(job.id);
+    batchJobWorker.wake();
+
+    res.json({
+      success: true,
+      data: {
+        ...toJobResponse(resumed),
+        requeued
+      }
+    });
+
+  } catch (error) {
+    logger.error('继续批量任务失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
 export default router;
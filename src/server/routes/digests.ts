@@ -0,0 +1,229 @@
+import { Router, Response } from 'express';
+import { Digest } from '@prisma/client';
+import { DIGEST_PERIODS, DigestError, DigestPeriod, DigestService } from '../services/DigestService';
+import { PROVIDER_NAMES } from '../services/providers';
+import { parseDateParam } from '../utils/dates';
+import { renderDigestHtml, renderDigestMarkdown } from '../utils/digestRenderer';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const digests = new DigestService();
+
+interface DigestRequest {
+  period?: string;
+  from?: string;
+  to?: string;
+  accountIds?: string[];
+  category?: string;
+  title?: string;
+  language?: string;
+  provider?: string;
+  model?: string;
+}
+
+function toDigestResponse(digest: Digest) {
+  return {
+    id: digest.id,
+    period: digest.period,
+    accountIds: digest.accountIds ? JSON.parse(digest.accountIds) : null,
+    category: digest.category,
+    language: digest.language,
+    articleCount: digest.articleCount,
+    provider: digest.provider,
+    model: digest.model,
+    ...digests.toContent(digest)
+  };
+}
+
+function handleError(res: Response, message: string, error: unknown) {
+  if (error instanceof DigestError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  logger.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : '服务器内部错误'
+  });
+}
+
+/**
+ * 按ID取摘要，不存在时返回404并返回null
+ */
+async function findDigest(id: string, res: Response): Promise<Digest | null> {
+  const digest = await digests.get(id);
+  if (!digest) {
+    res.status(404).json({
+      success: false,
+      error: '摘要不存在'
+    });
+  }
+  return digest;
+}
+
+/**
+ * GET /api/digests
+ * 分页获取摘要列表
+ */
+router.get('/', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const [items, total] = await digests.list((page - 1) * limit, limit);
+
+    res.json({
+      success: true,
+      data: items.map(toDigestResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    handleError(res, '获取摘要列表失败', error);
+  }
+});
+
+/**
+ * POST /api/digests
+ * 综合指定范围内的文章总结生成摘要：period 为 daily、weekly 或 custom，可按公众号和分类筛选
+ */
+router.post('/', async (req, res) => {
+  try {
+    const body: DigestRequest = req.body;
+    const period = (body.period ?? 'daily') as DigestPeriod;
+
+    if (!DIGEST_PERIODS.includes(period)) {
+      return res.status(400).json({
+        success: false,
+        error: `period 只能是 ${DIGEST_PERIODS.join('、')} 之一`
+      });
+    }
+
+    const from = parseDateParam(body.from, false);
+    const to = parseDateParam(body.to, true);
+    if (from === null || to === null) {
+      return res.status(400).json({
+        success: false,
+        error: '日期格式无效'
+      });
+    }
+
+    if (body.accountIds !== undefined && (!Array.isArray(body.accountIds) || body.accountIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({
+        success: false,
+        error: 'accountIds 必须是字符串数组'
+      });
+    }
+
+    if (body.provider && !PROVIDER_NAMES.includes(body.provider)) {
+      return res.status(400).json({
+        success: false,
+        error: `不支持的模型提供方: ${body.provider}`
+      });
+    }
+
+    const digest = await digests.generate({
+      period,
+      from,
+      to,
+      accountIds: body.accountIds,
+      category: body.category,
+      title: body.title,
+      language: body.language,
+      provider: body.provider,
+      model: body.model
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toDigestResponse(digest)
+    });
+
+  } catch (error) {
+    handleError(res, '生成摘要失败', error);
+  }
+});
+
+/**
+ * GET /api/digests/:id
+ * 获取摘要详情
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const digest = await findDigest(req.params.id, res);
+    if (!digest) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: toDigestResponse(digest)
+    });
+
+  } catch (error) {
+    handleError(res, '获取摘要失败', error);
+  }
+});
+
+/**
+ * GET /api/digests/:id/markdown
+ * 以Markdown格式获取摘要
+ */
+router.get('/:id/markdown', async (req, res) => {
+  try {
+    const digest = await findDigest(req.params.id, res);
+    if (!digest) {
+      return;
+    }
+
+    res.type('text/markdown; charset=utf-8').send(renderDigestMarkdown(digests.toContent(digest)));
+
+  } catch (error) {
+    handleError(res, '渲染摘要失败', error);
+  }
+});
+
+/**
+ * GET /api/digests/:id/html
+ * 以HTML页面获取摘要
+ */
+router.get('/:id/html', async (req, res) => {
+  try {
+    const digest = await findDigest(req.params.id, res);
+    if (!digest) {
+      return;
+    }
+
+    res.type('text/html; charset=utf-8').send(renderDigestHtml(digests.toContent(digest)));
+
+  } catch (error) {
+    handleError(res, '渲染摘要失败', error);
+  }
+});
+
+/**
+ * DELETE /api/digests/:id
+ * 删除摘要
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    await digests.delete(req.params.id);
+
+    res.json({
+      success: true,
+      message: '摘要已删除'
+    });
+
+  } catch (error) {
+    handleError(res, '删除摘要失败', error);
+  }
+});
+
+export default router;
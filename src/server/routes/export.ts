@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, ExportFormat, ExportScope, ExportService } from '../services/ExportService';
+import { prisma } from '../utils/prisma';
+import { formatDate, parseDateParam } from '../utils/dates';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const exportService = new ExportService();
+
+/**
+ * GET /api/export?format=csv&scope=job&jobId=xxx
+ * 导出文章及总结，format 为 md、csv、jsonl 或 xlsx；scope 为：
+ * - job: 某个批量任务的结果（jobId）
+ * - history: 历史记录，可按 accountName、from、to、category、sentiment 筛选
+ * - search: 搜索结果，参数同 /api/articles/search
+ * 结果以流的形式边查询边返回
+ */
+router.get('/', async (req, res) => {
+  try {
+    const format = ((req.query.format as string | undefined) ?? 'md') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format 只能是 ${EXPORT_FORMATS.join('、')} 之一`
+      });
+    }
+
+    const scopeType = (req.query.scope as string | undefined) ?? 'history';
+    let scope: ExportScope;
+
+    if (scopeType === 'job') {
+      const jobId = req.query.jobId as string | undefined;
+      if (!jobId) {
+        return res.status(400).json({
+          success: false,
+          error: '请提供批量任务ID'
+        });
+      }
+      if (!(await prisma.batchJob.findUnique({ where: { id: jobId } }))) {
+        return res.status(404).json({
+          success: false,
+          error: '批量任务不存在'
+        });
+      }
+      scope = { type: 'job', jobId };
+
+    } else if (scopeType === 'search') {
+      const q = (req.query.q as string | undefined)?.trim();
+      const category = req.query.category as string | undefined;
+      const sentiment = req.query.sentiment as string | undefined;
+      const accountId = req.query.accountId as string | undefined;
+      if (!q && !category && !sentiment && !accountId) {
+        return res.status(400).json({
+          success: false,
+          error: '请提供搜索关键词或筛选条件'
+        });
+      }
+      scope = { type: 'search', q, category, sentiment, accountId };
+
+    } else if (scopeType === 'history') {
+      const from = parseDateParam(req.query.from, false);
+      const to = parseDateParam(req.query.to, true);
+      if (from === null || to === null) {
+        return res.status(400).json({
+          success: false,
+          error: '日期格式无效'
+        });
+      }
+      scope = {
+        type: 'history',
+        accountName: req.query.accountName as string | undefined,
+        from,
+        to,
+        category: req.query.category as string | undefined,
+        sentiment: req.query.sentiment as string | undefined
+      };
+
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: 'scope 只能是 job、history 或 search'
+      });
+    }
+
+    const filename = `summaries-${scopeType}-${formatDate(new Date())}.${format}`;
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    const count = await exportService.write(format, scope, res);
+    logger.info(`导出 ${count} 篇文章 (${scopeType}, ${format})`);
+
+  } catch (error) {
+    logger.error('导出失败:', error);
+    // 开始输出后无法再返回JSON错误，只能中断连接
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
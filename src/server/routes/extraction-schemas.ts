@@ -0,0 +1,174 @@
+import { Router, Response } from 'express';
+import { ExtractionSchema } from '@prisma/client';
+import { ExtractionSchemaError, ExtractionSchemaService } from '../services/ExtractionSchemaService';
+import { FIELD_TYPES } from '../utils/summarySchema';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const extractionSchemas = new ExtractionSchemaService();
+
+/**
+ * 将字段定义转换为API响应结构
+ */
+function toSchemaResponse(schema: ExtractionSchema) {
+  return {
+    id: schema.id,
+    name: schema.name,
+    description: schema.description,
+    fields: JSON.parse(schema.fields),
+    createdAt: schema.createdAt,
+    updatedAt: schema.updatedAt
+  };
+}
+
+function handleError(res: Response, message: string, error: unknown) {
+  if (error instanceof ExtractionSchemaError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  logger.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : '服务器内部错误'
+  });
+}
+
+/**
+ * GET /api/extraction-schemas
+ * 获取全部提取字段定义及支持的字段类型
+ */
+router.get('/', async (req, res) => {
+  try {
+    const schemas = await extractionSchemas.listSchemas();
+
+    res.json({
+      success: true,
+      data: {
+        schemas: schemas.map(toSchemaResponse),
+        fieldTypes: FIELD_TYPES
+      }
+    });
+
+  } catch (error) {
+    handleError(res, '获取提取字段定义失败', error);
+  }
+});
+
+/**
+ * GET /api/extraction-schemas/:id
+ * 获取单个提取字段定义
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const schema = await extractionSchemas.getSchema(req.params.id);
+    if (!schema) {
+      return res.status(404).json({
+        success: false,
+        error: '提取字段定义不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toSchemaResponse(schema)
+    });
+
+  } catch (error) {
+    handleError(res, '获取提取字段定义失败', error);
+  }
+});
+
+/**
+ * POST /api/extraction-schemas
+ * 创建提取字段定义
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, description, fields } = req.body;
+    const schema = await extractionSchemas.createSchema({ name, description, fields });
+
+    res.status(201).json({
+      success: true,
+      data: toSchemaResponse(schema)
+    });
+
+  } catch (error) {
+    handleError(res, '创建提取字段定义失败', error);
+  }
+});
+
+/**
+ * PUT /api/extraction-schemas/:id
+ * 更新提取字段定义
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { name, description, fields } = req.body;
+    const schema = await extractionSchemas.updateSchema(req.params.id, { name, description, fields });
+    if (!schema) {
+      return res.status(404).json({
+        success: false,
+        error: '提取字段定义不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toSchemaResponse(schema)
+    });
+
+  } catch (error) {
+    handleError(res, '更新提取字段定义失败', error);
+  }
+});
+
+/**
+ * DELETE /api/extraction-schemas/:id
+ * 删除提取字段定义，已提取的字段值保留在总结中
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await extractionSchemas.deleteSchema(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: '提取字段定义不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: '提取字段定义已删除'
+    });
+
+  } catch (error) {
+    handleError(res, '删除提取字段定义失败', error);
+  }
+});
+
+/**
+ * PUT /api/extraction-schemas/accounts/:accountName
+ * 为账户指定默认的提取字段定义，extractionSchemaId 为 null 时取消
+ */
+router.put('/accounts/:accountName', async (req, res) => {
+  try {
+    const { extractionSchemaId = null } = req.body;
+    await extractionSchemas.assignToAccount(req.params.accountName, extractionSchemaId);
+
+    res.json({
+      success: true,
+      data: {
+        accountName: req.params.accountName,
+        extractionSchemaId
+      }
+    });
+
+  } catch (error) {
+    handleError(res, '设置账户提取字段失败', error);
+  }
+});
+
+export default router;
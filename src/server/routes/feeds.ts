@@ -0,0 +1,94 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, Router } from 'express';
+import { FEED_CONTENT_TYPES, FEED_FORMATS, FeedFormat, FeedScope, FeedService } from '../services/FeedService';
+import { renderAtom, renderRss } from '../utils/feedRenderer';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const feeds = new FeedService();
+
+// 限定扩展名，分类名中带点时也能正确切分
+const FORMAT_SUFFIX = `.:format(${FEED_FORMATS.join('|')})`;
+
+/**
+ * 设置 FEED_TOKEN 后，订阅地址需带 ?token=，便于在阅读器中使用而不暴露内容
+ */
+function isAuthorized(req: Request): boolean {
+  const expected = process.env.FEED_TOKEN;
+  if (!expected) {
+    return true;
+  }
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  // 比较摘要，长度不同也不会提前返回
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+/**
+ * 生成并返回订阅；内容未变化时按 If-None-Match / If-Modified-Since 返回304
+ */
+async function sendFeed(req: Request, res: Response, scope: FeedScope, notFound: string) {
+  try {
+    if (!isAuthorized(req)) {
+      return res.status(401).json({
+        success: false,
+        error: '订阅令牌无效'
+      });
+    }
+
+    const format = req.params.format as FeedFormat;
+    const origin = `${req.protocol}://${req.get('host')}`;
+    const feed = await feeds.build(scope, { link: origin, selfUrl: `${origin}${req.originalUrl}` });
+    if (!feed) {
+      return res.status(404).json({
+        success: false,
+        error: notFound
+      });
+    }
+
+    const body = format === 'rss' ? renderRss(feed) : renderAtom(feed);
+    res.setHeader('Content-Type', FEED_CONTENT_TYPES[format]);
+    res.setHeader('ETag', `"${createHash('sha1').update(body).digest('base64url')}"`);
+    res.setHeader('Last-Modified', feed.updated.toUTCString());
+    // 阅读器每次都带条件请求验证，未变化时只返回304
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+    res.send(body);
+
+  } catch (error) {
+    logger.error('生成订阅失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+}
+
+/**
+ * GET /api/feeds/accounts/:id.rss 或 .atom
+ * 某个公众号的文章总结订阅
+ */
+router.get(`/accounts/:id${FORMAT_SUFFIX}`, (req, res) =>
+  sendFeed(req, res, { type: 'account', accountId: req.params.id }, '公众号不存在')
+);
+
+/**
+ * GET /api/feeds/categories/:category.rss 或 .atom
+ * 某个分类的文章总结订阅，分类名需URL编码
+ */
+router.get(`/categories/:category${FORMAT_SUFFIX}`, (req, res) =>
+  sendFeed(req, res, { type: 'category', category: req.params.category }, '分类不存在')
+);
+
+/**
+ * GET /api/feeds/searches/:id.rss 或 .atom
+ * 已保存的搜索的文章总结订阅，按文章入库时间倒序
+ */
+router.get(`/searches/:id${FORMAT_SUFFIX}`, (req, res) =>
+  sendFeed(req, res, { type: 'search', searchId: req.params.id }, '搜索不存在')
+);
+
+export default router;
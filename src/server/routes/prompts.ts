@@ -0,0 +1,211 @@
+import { Router, Response } from 'express';
+import { PromptTemplate } from '@prisma/client';
+import { PromptTemplateError, PromptTemplateService } from '../services/PromptTemplateService';
+import { BUILTIN_PROMPT } from '../services/SummarizerService';
+import { PROMPT_VARIABLES } from '../utils/promptTemplate';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const promptTemplates = new PromptTemplateService();
+
+/**
+ * 将模板转换为API响应结构
+ */
+function toTemplateResponse(template: PromptTemplate) {
+  return {
+    id: template.id,
+    name: template.name,
+    version: template.version,
+    promptVersion: `${template.name}@v${template.version}`,
+    description: template.description,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+    variables: JSON.parse(template.variables),
+    createdAt: template.createdAt
+  };
+}
+
+function handleError(res: Response, message: string, error: unknown) {
+  if (error instanceof PromptTemplateError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  logger.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : '服务器内部错误'
+  });
+}
+
+/**
+ * GET /api/prompts
+ * 获取每个模板的最新版本，以及内置提示词和可用变量
+ */
+router.get('/', async (req, res) => {
+  try {
+    const templates = await promptTemplates.listLatest();
+
+    res.json({
+      success: true,
+      data: {
+        templates: templates.map(template => ({
+          ...toTemplateResponse(template),
+          versionCount: template.versionCount
+        })),
+        builtin: {
+          promptVersion: BUILTIN_PROMPT.version,
+          systemPrompt: BUILTIN_PROMPT.systemPrompt,
+          userPrompt: BUILTIN_PROMPT.userPrompt
+        },
+        variables: PROMPT_VARIABLES
+      }
+    });
+
+  } catch (error) {
+    handleError(res, '获取提示词模板失败', error);
+  }
+});
+
+/**
+ * GET /api/prompts/:id
+ * 获取指定版本的模板
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const template = await promptTemplates.getTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: '提示词模板不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toTemplateResponse(template)
+    });
+
+  } catch (error) {
+    handleError(res, '获取提示词模板失败', error);
+  }
+});
+
+/**
+ * GET /api/prompts/:id/versions
+ * 获取同名模板的全部版本
+ */
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const versions = await promptTemplates.listVersions(req.params.id);
+    if (!versions) {
+      return res.status(404).json({
+        success: false,
+        error: '提示词模板不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: versions.map(toTemplateResponse)
+    });
+
+  } catch (error) {
+    handleError(res, '获取提示词模板版本失败', error);
+  }
+});
+
+/**
+ * POST /api/prompts
+ * 创建新模板（版本1）
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, description, systemPrompt, userPrompt } = req.body;
+    const template = await promptTemplates.createTemplate({ name, description, systemPrompt, userPrompt });
+
+    res.status(201).json({
+      success: true,
+      data: toTemplateResponse(template)
+    });
+
+  } catch (error) {
+    handleError(res, '创建提示词模板失败', error);
+  }
+});
+
+/**
+ * PUT /api/prompts/:id
+ * 修改模板：不改动原版本，而是创建同名的新版本
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { description, systemPrompt, userPrompt } = req.body;
+    const template = await promptTemplates.createVersion(req.params.id, { description, systemPrompt, userPrompt });
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: '提示词模板不存在'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: toTemplateResponse(template)
+    });
+
+  } catch (error) {
+    handleError(res, '更新提示词模板失败', error);
+  }
+});
+
+/**
+ * DELETE /api/prompts/:id
+ * 删除指定版本，已被总结或账户引用的版本不能删除
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await promptTemplates.deleteTemplate(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: '提示词模板不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: '提示词模板已删除'
+    });
+
+  } catch (error) {
+    handleError(res, '删除提示词模板失败', error);
+  }
+});
+
+/**
+ * PUT /api/prompts/accounts/:accountName
+ * 为账户指定默认的提示词模板和输出语言，promptTemplateId 为 null 时恢复内置提示词
+ */
+router.put('/accounts/:accountName', async (req, res) => {
+  try {
+    const { promptTemplateId = null, language } = req.body;
+    await promptTemplates.assignToAccount(req.params.accountName, promptTemplateId, language);
+
+    res.json({
+      success: true,
+      data: {
+        accountName: req.params.accountName,
+        promptTemplateId,
+        language
+      }
+    });
+
+  } catch (error) {
+    handleError(res, '设置账户提示词模板失败', error);
+  }
+});
+
+export default router;
@@ -0,0 +1,215 @@
+import { Router } from 'express';
+import { Prisma, SavedSearch } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+interface SavedSearchRequest {
+  name?: string;
+  q?: string | null;
+  category?: string | null;
+  sentiment?: string | null;
+  accountId?: string | null;
+}
+
+// 附带订阅地址，启用 FEED_TOKEN 时需自行加上 ?token=
+function toSavedSearchResponse(search: SavedSearch) {
+  return {
+    ...search,
+    feeds: {
+      rss: `/api/feeds/searches/${search.id}.rss`,
+      atom: `/api/feeds/searches/${search.id}.atom`
+    }
+  };
+}
+
+/**
+ * 只取请求中出现的筛选条件，空字符串视为清除
+ */
+function toSearchData(body: SavedSearchRequest): Prisma.SavedSearchUncheckedUpdateInput {
+  const data: Prisma.SavedSearchUncheckedUpdateInput = {};
+
+  if (body.q !== undefined) data.q = body.q?.trim() || null;
+  if (body.category !== undefined) data.category = body.category || null;
+  if (body.sentiment !== undefined) data.sentiment = body.sentiment || null;
+  if (body.accountId !== undefined) data.accountId = body.accountId || null;
+
+  return data;
+}
+
+/**
+ * 校验搜索条件，返回错误信息
+ */
+async function validateSearch(search: SavedSearchRequest): Promise<string | null> {
+  if (!search.q?.trim() && !search.category && !search.sentiment && !search.accountId) {
+    return '请提供搜索关键词或筛选条件';
+  }
+  if (search.accountId && !(await prisma.weChatAccount.findUnique({ where: { id: search.accountId } }))) {
+    return `公众号不存在: ${search.accountId}`;
+  }
+  return null;
+}
+
+/**
+ * GET /api/saved-searches
+ * 获取已保存的搜索及其订阅地址
+ */
+router.get('/', async (req, res) => {
+  try {
+    const searches = await prisma.savedSearch.findMany({ orderBy: { createdAt: 'desc' } });
+
+    res.json({
+      success: true,
+      data: searches.map(toSavedSearchResponse)
+    });
+
+  } catch (error) {
+    logger.error('获取已保存的搜索失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/saved-searches
+ * 保存一组搜索条件，参数同 /api/articles/search
+ */
+router.post('/', async (req, res) => {
+  try {
+    const body: SavedSearchRequest = req.body;
+    const name = body.name?.trim();
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: '搜索名称不能为空'
+      });
+    }
+
+    const validationError = await validateSearch(body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    if (await prisma.savedSearch.findUnique({ where: { name } })) {
+      return res.status(409).json({
+        success: false,
+        error: `搜索 ${name} 已存在`
+      });
+    }
+
+    const search = await prisma.savedSearch.create({
+      data: { ...toSearchData(body), name } as Prisma.SavedSearchUncheckedCreateInput
+    });
+
+    logger.info(`保存搜索: ${name}`);
+    res.status(201).json({
+      success: true,
+      data: toSavedSearchResponse(search)
+    });
+
+  } catch (error) {
+    logger.error('保存搜索失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * PUT /api/saved-searches/:id
+ * 修改搜索名称或条件，订阅地址不变
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const body: SavedSearchRequest = req.body;
+    const current = await prisma.savedSearch.findUnique({ where: { id: req.params.id } });
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: '搜索不存在'
+      });
+    }
+
+    const name = body.name?.trim();
+    if (body.name !== undefined && !name) {
+      return res.status(400).json({
+        success: false,
+        error: '搜索名称不能为空'
+      });
+    }
+
+    const data = toSearchData(body);
+    const validationError = await validateSearch({ ...current, ...(data as SavedSearchRequest) });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    if (name && name !== current.name && (await prisma.savedSearch.findUnique({ where: { name } }))) {
+      return res.status(409).json({
+        success: false,
+        error: `搜索 ${name} 已存在`
+      });
+    }
+
+    const search = await prisma.savedSearch.update({
+      where: { id: current.id },
+      data: { ...data, ...(name && { name }) }
+    });
+
+    res.json({
+      success: true,
+      data: toSavedSearchResponse(search)
+    });
+
+  } catch (error) {
+    logger.error('更新搜索失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * DELETE /api/saved-searches/:id
+ * 删除已保存的搜索，其订阅地址随之失效
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const search = await prisma.savedSearch.findUnique({ where: { id: req.params.id } });
+    if (!search) {
+      return res.status(404).json({
+        success: false,
+        error: '搜索不存在'
+      });
+    }
+
+    await prisma.savedSearch.delete({ where: { id: search.id } });
+
+    logger.info(`删除已保存的搜索: ${search.name}`);
+    res.json({
+      success: true,
+      message: '搜索已删除'
+    });
+
+  } catch (error) {
+    logger.error('删除搜索失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
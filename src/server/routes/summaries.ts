@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { countBuckets, MAX_BUCKETS, SummaryStatsService } from '../services/SummaryStatsService';
+import { parseDateParam } from '../utils/dates';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const statsService = new SummaryStatsService();
+
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * GET /api/summaries/stats?from=2024-01-01&to=2024-01-31&accountId=xxx&bucket=day
+ * 总结统计：总数、近7天数量、情感与分类分布，以及按天或按周的趋势
+ */
+router.get('/stats', async (req, res) => {
+  try {
+    const bucket = (req.query.bucket as string | undefined) ?? 'day';
+    if (bucket !== 'day' && bucket !== 'week') {
+      return res.status(400).json({
+        success: false,
+        error: 'bucket 只能是 day 或 week'
+      });
+    }
+
+    const to = parseDateParam(req.query.to, true);
+    const from = parseDateParam(req.query.from, false);
+    if (to === null || from === null) {
+      return res.status(400).json({
+        success: false,
+        error: '日期格式无效'
+      });
+    }
+
+    const rangeEnd = to ?? new Date();
+    const rangeStart = from ?? new Date(rangeEnd.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    if (rangeStart > rangeEnd) {
+      return res.status(400).json({
+        success: false,
+        error: '开始日期不能晚于结束日期'
+      });
+    }
+
+    if (countBuckets(rangeStart, rangeEnd, bucket) > MAX_BUCKETS) {
+      return res.status(400).json({
+        success: false,
+        error: `时间范围过大，最多统计 ${MAX_BUCKETS} 个时间段`
+      });
+    }
+
+    const stats = await statsService.getStats({
+      from: rangeStart,
+      to: rangeEnd,
+      bucket,
+      accountId: req.query.accountId as string | undefined
+    });
+
+    res.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    logger.error('获取总结统计失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { TaskLog } from '@prisma/client';
+import { TaskLogService } from '../services/TaskLogService';
+import { summaryBackfill } from '../services/SummaryBackfillService';
+import { SubscriptionService } from '../services/SubscriptionService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const taskLogs = new TaskLogService();
+const subscriptions = new SubscriptionService();
+
+// 单次触发最多补总结的文章数
+const maxBackfillArticles = parseInt(process.env.SUMMARY_BACKFILL_LIMIT || '100');
+
+function toLogResponse(log: TaskLog) {
+  return {
+    ...log,
+    details: log.details ? JSON.parse(log.details) : null
+  };
+}
+
+/**
+ * GET /api/tasks/logs?taskType=xxx&status=xxx
+ * 分页获取任务日志
+ */
+router.get('/logs', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const { logs, total } = await taskLogs.listLogs({
+      taskType: req.query.taskType as string | undefined,
+      status: req.query.status as string | undefined,
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    res.json({
+      success: true,
+      data: logs.map(toLogResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    logger.error('获取任务日志失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * GET /api/tasks/stats
+ * 任务统计：总数、近24小时数量、按类型和状态分布、平均耗时
+ */
+router.get('/stats', async (req, res) => {
+  try {
+    const stats = await taskLogs.stats();
+
+    res.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    logger.error('获取任务统计失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/trigger/fetch
+ * 立即抓取所有启用的订阅，不等待各自的抓取计划；新文章加入后台批量任务
+ */
+router.post('/trigger/fetch', async (req, res) => {
+  try {
+    const results = await subscriptions.fetchAll();
+    const queued = results.reduce((sum, result) => sum + result.queued, 0);
+
+    res.json({
+      success: true,
+      data: {
+        message: `已抓取 ${results.length} 个订阅，${queued} 篇新文章加入批量任务`,
+        accounts: results.length,
+        articles: queued,
+        results
+      }
+    });
+
+  } catch (error) {
+    logger.error('触发抓取失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/trigger/summarize
+ * 为没有总结或总结解析失败的文章补做总结，在后台运行
+ */
+router.post('/trigger/summarize', async (req, res) => {
+  try {
+    if (summaryBackfill.isRunning()) {
+      return res.status(409).json({
+        success: false,
+        error: '补总结任务正在运行，请稍后再试'
+      });
+    }
+
+    const count = await summaryBackfill.start(maxBackfillArticles);
+
+    res.status(count > 0 ? 202 : 200).json({
+      success: true,
+      data: {
+        message: count > 0 ? `已开始为 ${count} 篇文章补做总结` : '没有需要总结的文章',
+        articles: count
+      }
+    });
+
+  } catch (error) {
+    logger.error('触发补总结失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '服务器内部错误'
+    });
+  }
+});
+
+export default router;
@@ -3,19 +3,33 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import path from 'path';
-import { PrismaClient } from '@prisma/client';
 import { logger } from './utils/logger';
+import { prisma } from './utils/prisma';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
+import { batchJobWorker } from './services/BatchJobWorker';
+import { SearchIndexService } from './services/SearchIndexService';
+import { subscriptionScheduler } from './services/SubscriptionScheduler';
+import { browserPool } from './services/BrowserPool';
 
 // Import routes
 import batchSummarizeRouter from './routes/batch-summarize';
+import adminRouter from './routes/admin';
+import promptsRouter from './routes/prompts';
+import extractionSchemasRouter from './routes/extraction-schemas';
+import accountsRouter from './routes/accounts';
+import articlesRouter from './routes/articles';
+import summariesRouter from './routes/summaries';
+import tasksRouter from './routes/tasks';
+import digestsRouter from './routes/digests';
+import exportRouter from './routes/export';
+import savedSearchesRouter from './routes/saved-searches';
+import feedsRouter from './routes/feeds';
 
 dotenv.config();
 
 const app = express();
 const port = process.env.PORT || 3001;
-const prisma = new PrismaClient();
 
 // Middleware
 app.use(helmet());
@@ -26,6 +40,17 @@ app.use(rateLimiter);
 
 // Routes
 app.use('/api/batch-summarize', batchSummarizeRouter);
+app.use('/api/admin', adminRouter);
+app.use('/api/prompts', promptsRouter);
+app.use('/api/extraction-schemas', extractionSchemasRouter);
+app.use('/api/accounts', accountsRouter);
+app.use('/api/articles', articlesRouter);
+app.use('/api/summaries', summariesRouter);
+app.use('/api/tasks', tasksRouter);
+app.use('/api/digests', digestsRouter);
+app.use('/api/export', exportRouter);
+app.use('/api/saved-searches', savedSearchesRouter);
+app.use('/api/feeds', feedsRouter);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -44,12 +69,25 @@ if (process.env.NODE_ENV === 'production') {
 app.use(errorHandler);
 
 // Graceful shutdown
-process.on('SIGINT', async () => {
+const shutdown = async () => {
   logger.info('Shutting down gracefully...');
+  await subscriptionScheduler.stop();
+  await batchJobWorker.stop();
+  await browserPool.close();
   await prisma.$disconnect();
   process.exit(0);
-});
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 app.listen(port, () => {
   logger.info(`Server running on port ${port}`);
+  new SearchIndexService().ensureIndex().catch(error => {
+    logger.error('Failed to prepare search index:', error);
+  });
+  batchJobWorker.start().catch(error => {
+    logger.error('Failed to start batch job worker:', error);
+  });
+  subscriptionScheduler.start();
 });
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import axios from 'axios';
+import { ArticleAsset } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { assertPublicUrl, publicRequestConfig } from '../utils/networkGuard';
+import { ExtractedAsset } from '../utils/articleAssets';
+
+// 只有图片和封面会下载到本地
+const DOWNLOADABLE_TYPES = new Set(['cover', 'image']);
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+};
+
+// 微信图片CDN禁止外站引用，这些域名的图片由服务端代为请求
+const PROXIED_HOSTS = /(^|\.)(qpic\.cn|qlogo\.cn)$/i;
+
+interface StoredFile {
+  localPath: string;
+  contentHash: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * 封面缩略图的访问地址
+ */
+export function coverPath(articleId: string): string {
+  return `/api/articles/${articleId}/cover`;
+}
+
+/**
+ * 文章中的图片、封面、视频、音频和小程序卡片
+ * 开启 ASSET_DOWNLOAD 时图片按内容哈希保存到本地，相同图片只存一份
+ */
+export class ArticleAssetService {
+  private readonly downloadEnabled = process.env.ASSET_DOWNLOAD === 'true';
+  private readonly storageDir = path.resolve(process.env.ASSET_STORAGE_DIR || './data/assets');
+  private readonly maxBytes = parseInt(process.env.ASSET_MAX_BYTES || String(10 * 1024 * 1024));
+  private readonly timeout = 20000;
+
+  /**
+   * 用本次提取的结果替换文章的全部资源，封面排在第0位
+   * 已下载过的图片沿用原有文件，不重复下载
+   */
+  async replaceAssets(articleId: string, coverUrl: string | undefined, assets: ExtractedAsset[]): Promise<void> {
+    const all: ExtractedAsset[] = [
+      ...(coverUrl ? [{ type: 'cover' as const, url: coverUrl }] : []),
+      ...assets
+    ];
+
+    const previous = await prisma.articleAsset.findMany({
+      where: { articleId, localPath: { not: null } }
+    });
+    const stored = new Map<string, StoredFile>(previous.map(asset => [asset.url, {
+      localPath: asset.localPath!,
+      contentHash: asset.contentHash!,
+      mimeType: asset.mimeType!,
+      size: asset.size!
+    }]));
+
+    if (this.downloadEnabled) {
+      for (const asset of all) {
+        if (DOWNLOADABLE_TYPES.has(asset.type) && !stored.has(asset.url)) {
+          const file = await this.download(asset.url).catch(error => {
+            logger.warn(`下载图片失败 ${asset.url}: ${error instanceof Error ? error.message : error}`);
+            return null;
+          });
+          if (file) {
+            stored.set(asset.url, file);
+          }
+        }
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.articleAsset.deleteMany({ where: { articleId } }),
+      prisma.articleAsset.createMany({
+        data: all.map((asset, index) => ({
+          articleId,
+          type: asset.type,
+          position: coverUrl ? index : index + 1,
+          url: asset.url,
+          caption: asset.caption ?? null,
+          metadata: asset.metadata ? JSON.stringify(asset.metadata) : null,
+          ...stored.get(asset.url)
+        }))
+      })
+    ]);
+  }
+
+  async list(articleId: string): Promise<ArticleAsset[]> {
+    return prisma.articleAsset.findMany({
+      where: { articleId },
+      orderBy: { position: 'asc' }
+    });
+  }
+
+  async get(articleId: string, id: string): Promise<ArticleAsset | null> {
+    return prisma.articleAsset.findFirst({ where: { id, articleId } });
+  }
+
+  async getCover(articleId: string): Promise<ArticleAsset | null> {
+    return prisma.articleAsset.findFirst({ where: { articleId, type: 'cover' } });
+  }
+
+  /**
+   * 本地文件的绝对路径，未下载或文件已被清理时返回null
+   */
+  async resolveFile(asset: ArticleAsset): Promise<string | null> {
+    if (!asset.localPath) {
+      return null;
+    }
+    const file = path.join(this.storageDir, asset.localPath);
+    return fs.access(file).then(() => file, () => null);
+  }
+
+  /**
+   * 是否需要由服务端代为请求远程文件
+   */
+  shouldProxy(asset: ArticleAsset): boolean {
+    try {
+      const url = new URL(asset.url);
+      return DOWNLOADABLE_TYPES.has(asset.type) && /^https?:$/.test(url.protocol) && PROXIED_HOSTS.test(url.hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 请求远程图片，返回可直接转发的响应流；远程返回的不是图片时拒绝转发，避免以本站名义返回网页
+   * 流式响应不受 axios 的 maxContentLength 限制，超过 ASSET_MAX_BYTES 时由这里中断
+   */
+  async fetchRemote(asset: ArticleAsset): Promise<{ stream: NodeJS.ReadableStream; mimeType: string }> {
+    assertPublicUrl(asset.url);
+    const response = await axios.get<Readable>(asset.url, {
+      ...publicRequestConfig,
+      responseType: 'stream',
+      timeout: this.timeout
+    });
+
+    const source = response.data;
+    const mimeType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (!mimeType.startsWith('image/')) {
+      source.destroy();
+      throw new Error(`不是图片: ${mimeType || '未知类型'}`);
+    }
+
+    const declared = Number(response.headers['content-length']);
+    if (declared > this.maxBytes) {
+      source.destroy();
+      throw new Error(`文件过大: ${declared} 字节，上限 ${this.maxBytes} 字节`);
+    }
+
+    // 没有声明长度或声明不实时，按实际收到的字节数计数
+    let received = 0;
+    const limited = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        received += chunk.length;
+        if (received > this.maxBytes) {
+          callback(new Error(`文件超过 ${this.maxBytes} 字节，已中断`));
+        } else {
+          callback(null, chunk);
+        }
+      }
+    });
+    // 任一端出错时两端一起销毁，远程连接随之关闭
+    pipeline(source, limited, error => {
+      if (error) {
+        logger.warn(`转发图片中断 ${asset.url}: ${error.message}`);
+      }
+    });
+
+    return { stream: limited, mimeType };
+  }
+
+  /**
+   * 下载文件并按内容哈希保存，已存在相同内容时直接复用
+   */
+  private async download(url: string): Promise<StoredFile> {
+    // 图片地址取自网页，可能指向内网
+    assertPublicUrl(url);
+    const response = await axios.get<ArrayBuffer>(url, {
+      ...publicRequestConfig,
+      responseType: 'arraybuffer',
+      timeout: this.timeout,
+      maxContentLength: this.maxBytes
+    });
+
+    const mimeType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (!mimeType.startsWith('image/')) {
+      throw new Error(`不是图片: ${mimeType || '未知类型'}`);
+    }
+
+    const data = Buffer.from(response.data);
+    const contentHash = createHash('sha256').update(data).digest('hex');
+    const extension = EXTENSIONS[mimeType] ?? 'bin';
+    const localPath = path.join(contentHash.slice(0, 2), `${contentHash}.${extension}`);
+    const target = path.join(this.storageDir, localPath);
+
+    const exists = await fs.access(target).then(() => true, () => false);
+    if (!exists) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // 先写临时文件再改名，避免并发写入或中断留下不完整的文件
+      const temporary = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, target);
+    }
+
+    return { localPath, contentHash, mimeType, size: data.length };
+  }
+}
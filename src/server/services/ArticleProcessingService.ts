@@ -0,0 +1,366 @@
+import { WeChatAccount } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { getCircuitBreaker } from '../utils/resilience';
+import { ExtractedFields } from '../utils/summarySchema';
+import { ExtractionErrorCode } from '../utils/extractionErrors';
+import { toAccountMetadata, WeChatAccountMetadata, WeChatPageMetadata } from '../utils/wechatPageMetadata';
+import { WeChatUrlExtractorService, ExtractedWeChatArticle } from './WeChatUrlExtractorService';
+import {
+  DEFAULT_LANGUAGE,
+  ParseStatus,
+  SummarizationError,
+  SummarizerService,
+  SummaryCoverage,
+  SummaryPrompt
+} from './SummarizerService';
+import { computeContentHash, computeInputHash, SummaryCacheService } from './SummaryCacheService';
+import { PromptTemplateService } from './PromptTemplateService';
+import { ExtractionSchemaService } from './ExtractionSchemaService';
+import { SearchIndexService } from './SearchIndexService';
+import { ArticleAssetService, coverPath } from './ArticleAssetService';
+import { getProvider, SummarizationProvider } from './providers';
+
+export interface BatchItemResult {
+  url: string;
+  title: string;
+  cover?: string; // 封面缩略图地址
+  summary?: {
+    summary: string;
+    keyPoints: string[];
+    sentiment: string | null;
+    category: string | null;
+    provider: string;
+    model: string;
+    coverage: SummaryCoverage;
+    parseStatus: ParseStatus;
+    promptVersion: string;
+    fields: ExtractedFields | null; // 自定义提取字段，未指定提取字段定义时为null
+  };
+  cached?: boolean; // 总结来自缓存，未调用模型
+  attempts?: {
+    extract: number; // 抓取页面的请求次数
+    summarize: number; // 调用模型接口的次数
+  };
+  error?: string;
+  errorCode?: ExtractionErrorCode; // 提取失败的类型
+  retryable?: boolean; // 稍后重试是否可能成功
+}
+
+export interface ProcessingOptions {
+  accountName: string;
+  provider?: string | null;
+  model?: string | null;
+  force?: boolean; // 跳过总结缓存，强制重新调用模型
+  promptTemplateId?: string | null; // 提示词模板版本，未指定时使用账户配置或内置提示词
+  language?: string | null;
+  extractionSchemaId?: string | null; // 自定义提取字段定义，未指定时使用账户配置
+}
+
+export interface ProcessedArticle {
+  result: BatchItemResult;
+  articleId?: string;
+}
+
+export type ProcessingStage = 'extracting' | 'summarizing';
+
+export class ArticleProcessingService {
+  constructor(
+    private readonly urlExtractor = new WeChatUrlExtractorService(),
+    private readonly summarizer = new SummarizerService(),
+    private readonly summaryCache = new SummaryCacheService(),
+    private readonly promptTemplates = new PromptTemplateService(),
+    private readonly extractionSchemas = new ExtractionSchemaService(),
+    private readonly searchIndex = new SearchIndexService(),
+    private readonly assets = new ArticleAssetService()
+  ) {}
+
+  /**
+   * 处理单个URL：提取 → 总结 → 保存
+   */
+  async processUrl(
+    url: string,
+    options: ProcessingOptions,
+    onStage?: (stage: ProcessingStage) => void | Promise<void>
+  ): Promise<ProcessedArticle> {
+    // 模型服务熔断时直接失败，不再抓取页面
+    try {
+      const { provider } = await this.resolveProvider(options);
+      const breaker = getCircuitBreaker(provider.name);
+      if (breaker.isOpen()) {
+        return {
+          result: {
+            url,
+            title: url,
+            attempts: { extract: 0, summarize: 0 },
+            error: `总结失败: ${provider.name} 服务暂时不可用（熔断中），已跳过`
+          }
+        };
+      }
+    } catch (error) {
+      return {
+        result: {
+          url,
+          title: url,
+          error: `总结失败: ${error instanceof Error ? error.message : '未知错误'}`
+        }
+      };
+    }
+
+    await onStage?.('extracting');
+    const article = await this.urlExtractor.extractSingleWeChatArticle(url);
+
+    if (article.error) {
+      return {
+        result: {
+          url: article.url,
+          title: article.title,
+          attempts: { extract: article.attempts ?? 0, summarize: 0 },
+          error: article.error,
+          errorCode: article.errorCode,
+          retryable: article.retryable
+        }
+      };
+    }
+
+    await onStage?.('summarizing');
+    return this.summarizeAndSave(article, options);
+  }
+
+  /**
+   * 查找或创建账户，并确定使用的模型提供方
+   * 请求指定的提供方优先，其次是账户配置，最后使用全局默认
+   */
+  private async resolveProvider(
+    options: ProcessingOptions
+  ): Promise<{ account: WeChatAccount; provider: SummarizationProvider }> {
+    const account = await prisma.weChatAccount.upsert({
+      where: { name: options.accountName },
+      update: {},
+      create: {
+        name: options.accountName,
+        displayName: options.accountName,
+        description: '通过批量URL导入创建'
+      }
+    });
+
+    const provider = options.provider
+      ? getProvider(options.provider, options.model)
+      : getProvider(account.provider, options.model || account.model);
+
+    return { account, provider };
+  }
+
+  /**
+   * 文章来自账户对应的公众号时，记录公众号的 __biz、原始ID、名称和头像
+   * 批量导入等汇集了多个公众号的账户不记录
+   */
+  private async recordAccountMetadata(account: WeChatAccount, metadata: WeChatPageMetadata): Promise<void> {
+    const identity = toAccountMetadata(metadata);
+    if (!identity || !this.isSameAccount(account, identity)) {
+      return;
+    }
+
+    const serialized = JSON.stringify(identity);
+    if (serialized !== account.metadata) {
+      await prisma.weChatAccount.update({
+        where: { id: account.id },
+        data: { metadata: serialized }
+      });
+    }
+  }
+
+  private isSameAccount(account: WeChatAccount, identity: WeChatAccountMetadata): boolean {
+    // __biz 末尾的 = 在合集链接中可能被编码，比较时去掉
+    const biz = identity.biz?.replace(/=+$/, '');
+    if (biz && (account.sourceType === 'biz' || account.sourceType === 'album') && account.source?.includes(biz)) {
+      return true;
+    }
+
+    const recorded: WeChatAccountMetadata | null = account.metadata ? JSON.parse(account.metadata) : null;
+    if (biz && recorded?.biz?.replace(/=+$/, '') === biz) {
+      return true;
+    }
+
+    return Boolean(
+      (identity.userName && account.name === identity.userName) ||
+      (identity.nickname && account.displayName === identity.nickname)
+    );
+  }
+
+  /**
+   * 确定提示词模板和输出语言：请求指定的优先，其次是账户配置，最后使用内置提示词
+   */
+  private async resolvePrompt(
+    account: WeChatAccount,
+    options: ProcessingOptions
+  ): Promise<{ prompt: SummaryPrompt; language: string }> {
+    const prompt = await this.promptTemplates.resolvePrompt(options.promptTemplateId || account.promptTemplateId);
+    const language = options.language || account.language || DEFAULT_LANGUAGE;
+    return { prompt, language };
+  }
+
+  /**
+   * 对已提取的文章进行AI总结并保存到数据库
+   */
+  async summarizeAndSave(article: ExtractedWeChatArticle, options: ProcessingOptions): Promise<ProcessedArticle> {
+    const { accountName } = options;
+    const extractAttempts = article.attempts ?? 0;
+
+    try {
+      const { account, provider } = await this.resolveProvider(options);
+      const { prompt, language } = await this.resolvePrompt(account, options);
+      const schema = await this.extractionSchemas.resolveSchema(options.extractionSchemaId || account.extractionSchemaId);
+
+      // Markdown保留了标题、列表、表格等结构，比纯文本更利于模型理解
+      const summaryInput = article.markdown || article.content;
+      const contentHash = computeContentHash(article.content);
+      // 缓存按实际填入提示词的标题、公众号和正文区分，只有Markdown变化时也不会复用旧总结
+      const cacheKey = {
+        contentHash: computeInputHash({ title: article.title, account: account.displayName, content: summaryInput }),
+        promptVersion: prompt.version,
+        language,
+        provider: provider.name,
+        model: provider.model,
+        ...(schema && { fieldsHash: schema.fieldsHash })
+      };
+
+      // 相同内容、提示词版本和模型的总结直接复用
+      let outcome = options.force ? null : await this.summaryCache.get(cacheKey);
+      const cached = Boolean(outcome);
+      if (!outcome) {
+        outcome = await this.summarizer.summarizeArticle(
+          article.title,
+          summaryInput,
+          provider,
+          { prompt, account: account.displayName, language, fields: schema?.fields }
+        );
+        await this.summaryCache.set(cacheKey, outcome);
+      } else {
+        logger.info(`命中总结缓存: ${article.title}`);
+      }
+      const summaryResult = outcome.result;
+
+      // 保存文章到数据库（如果URL已存在则更新）
+      const savedArticle = await prisma.article.upsert({
+        where: { url: article.url },
+        update: {
+          title: article.title,
+          content: article.content,
+          markdown: article.markdown ?? null,
+          extractionStrategy: article.strategy,
+          ingestSource: article.ingestSource,
+          adapter: article.adapter,
+          metadata: article.metadata ? JSON.stringify(article.metadata) : undefined,
+          publishDate: article.publishDate || new Date(),
+          author: article.author || article.metadata?.nickname || accountName,
+          contentHash,
+          accountId: account.id
+        },
+        create: {
+          title: article.title,
+          content: article.content,
+          markdown: article.markdown ?? null,
+          extractionStrategy: article.strategy ?? null,
+          ingestSource: article.ingestSource ?? 'fetch',
+          adapter: article.adapter ?? null,
+          metadata: article.metadata ? JSON.stringify(article.metadata) : null,
+          url: article.url,
+          publishDate: article.publishDate || new Date(),
+          author: article.author || article.metadata?.nickname || accountName,
+          contentHash,
+          accountId: account.id
+        }
+      });
+
+      if (article.metadata) {
+        await this.recordAccountMetadata(account, article.metadata).catch(error => {
+          logger.warn(`保存公众号信息失败 ${account.name}:`, error);
+        });
+      }
+
+      // 解析失败时不写入伪造的总结内容，只记录状态和原始输出
+      const summaryData = {
+        content: summaryResult?.content ?? '',
+        keyPoints: JSON.stringify(summaryResult?.keyPoints ?? []),
+        sentiment: summaryResult?.sentiment ?? null,
+        category: summaryResult?.category ?? null,
+        provider: provider.name,
+        model: provider.model,
+        coverage: outcome.coverage,
+        chunkCount: outcome.chunkCount,
+        parseStatus: outcome.parseStatus,
+        rawOutput: outcome.rawOutput ?? null,
+        promptVersion: prompt.version,
+        promptTemplateId: prompt.templateId ?? null,
+        extractedFields: summaryResult?.fields ? JSON.stringify(summaryResult.fields) : null,
+        extractionSchemaId: schema?.id ?? null
+      };
+
+      // 保存总结到数据库（如果已存在则更新）
+      await prisma.summary.upsert({
+        where: { articleId: savedArticle.id },
+        update: summaryData,
+        create: {
+          articleId: savedArticle.id,
+          ...summaryData
+        }
+      });
+
+      // 只有重新抓取的文章才带有资源列表，补总结等场景保留原有资源
+      if (article.assets) {
+        await this.assets.replaceAssets(savedArticle.id, article.coverUrl, article.assets).catch(error => {
+          logger.warn(`保存文章资源失败 ${savedArticle.id}:`, error);
+        });
+      }
+
+      // 索引失败不影响总结结果，下次启动时会自动补建
+      await this.searchIndex.indexArticle(savedArticle.id).catch(error => {
+        logger.warn(`更新全文索引失败 ${savedArticle.id}:`, error);
+      });
+
+      if (outcome.parseStatus === 'failed') {
+        logger.warn(`文章已保存，但模型输出无法解析: ${article.title}`);
+      } else {
+        logger.info(`成功处理文章: ${article.title}`);
+      }
+
+      return {
+        articleId: savedArticle.id,
+        result: {
+          url: article.url,
+          title: article.title,
+          ...(article.coverUrl && { cover: coverPath(savedArticle.id) }),
+          summary: {
+            summary: summaryData.content,
+            keyPoints: summaryResult?.keyPoints ?? [],
+            sentiment: summaryData.sentiment,
+            category: summaryData.category,
+            provider: provider.name,
+            model: provider.model,
+            coverage: outcome.coverage,
+            parseStatus: outcome.parseStatus,
+            promptVersion: prompt.version,
+            fields: summaryResult?.fields ?? null
+          },
+          cached,
+          attempts: { extract: extractAttempts, summarize: outcome.attempts }
+        }
+      };
+
+    } catch (error) {
+      logger.error(`总结文章失败 ${article.url}:`, error);
+      return {
+        result: {
+          url: article.url,
+          title: article.title,
+          attempts: {
+            extract: extractAttempts,
+            summarize: error instanceof SummarizationError ? error.attempts : 0
+          },
+          error: `总结失败: ${error instanceof Error ? error.message : '未知错误'}`
+        }
+      };
+    }
+  }
+}
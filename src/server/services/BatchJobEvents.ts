@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+import { BatchJob, BatchJobItem } from '@prisma/client';
+import { BatchItemResult } from './ArticleProcessingService';
+import { BatchJobItemStatus, BatchJobStatus } from './BatchJobService';
+
+export interface BatchItemProgressEvent {
+  type: 'item';
+  jobId: string;
+  itemId: string;
+  position: number;
+  url: string;
+  status: BatchJobItemStatus;
+  result?: BatchItemResult;
+}
+
+export interface BatchJobProgressEvent {
+  type: 'job';
+  jobId: string;
+  status: BatchJobStatus;
+  total: number;
+  successCount: number;
+  failCount: number;
+}
+
+export type BatchProgressEvent = BatchItemProgressEvent | BatchJobProgressEvent;
+
+export function toItemEvent(item: BatchJobItem, status: BatchJobItemStatus, result?: BatchItemResult): BatchItemProgressEvent {
+  return {
+    type: 'item',
+    jobId: item.jobId,
+    itemId: item.id,
+    position: item.position,
+    url: item.url,
+    status,
+    ...(result && { result })
+  };
+}
+
+export function toJobEvent(job: BatchJob): BatchJobProgressEvent {
+  return {
+    type: 'job',
+    jobId: job.id,
+    status: job.status as BatchJobStatus,
+    total: job.total,
+    successCount: job.successCount,
+    failCount: job.failCount
+  };
+}
+
+/**
+ * 批量任务进度事件总线
+ * 执行器在任务项状态变化时发布事件，SSE接口按任务ID订阅
+ */
+class BatchJobEvents {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // 每个SSE连接都会注册一个监听器
+    this.emitter.setMaxListeners(0);
+  }
+
+  emitItem(item: BatchJobItem, status: BatchJobItemStatus, result?: BatchItemResult): void {
+    this.emitter.emit(item.jobId, toItemEvent(item, status, result));
+  }
+
+  emitJob(job: BatchJob): void {
+    this.emitter.emit(job.id, toJobEvent(job));
+  }
+
+  /**
+   * 订阅某个任务的进度事件，返回取消订阅函数
+   */
+  subscribe(jobId: string, listener: (event: BatchProgressEvent) => void): () => void {
+    this.emitter.on(jobId, listener);
+    return () => {
+      this.emitter.off(jobId, listener);
+    };
+  }
+}
+
+export const batchJobEvents = new BatchJobEvents();
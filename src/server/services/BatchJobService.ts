@@ -0,0 +1,205 @@
+import { BatchJob, BatchJobItem } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { BatchItemResult, ProcessingOptions } from './ArticleProcessingService';
+import { batchJobEvents } from './BatchJobEvents';
+
+// paused: 触发微信验证后暂停，等待手动继续
+export type BatchJobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'cancelled';
+export type BatchJobItemStatus = 'queued' | 'extracting' | 'summarizing' | 'saved' | 'failed' | 'cancelled';
+
+export const ACTIVE_JOB_STATUSES: BatchJobStatus[] = ['pending', 'running'];
+export const IN_FLIGHT_ITEM_STATUSES: BatchJobItemStatus[] = ['extracting', 'summarizing'];
+
+export class BatchJobService {
+  /**
+   * 创建批量任务，每个URL对应一个任务项
+   */
+  async createJob(urls: string[], options: ProcessingOptions): Promise<BatchJob> {
+    const job = await prisma.batchJob.create({
+      data: {
+        accountName: options.accountName,
+        provider: options.provider,
+        model: options.model,
+        force: options.force ?? false,
+        promptTemplateId: options.promptTemplateId,
+        language: options.language,
+        extractionSchemaId: options.extractionSchemaId,
+        total: urls.length,
+        items: {
+          create: urls.map((url, position) => ({ url, position }))
+        }
+      }
+    });
+
+    logger.info(`创建批量任务 ${job.id}，共 ${urls.length} 个URL`);
+    return job;
+  }
+
+  async getJob(id: string): Promise<BatchJob | null> {
+    return prisma.batchJob.findUnique({ where: { id } });
+  }
+
+  async getJobItems(jobId: string): Promise<BatchJobItem[]> {
+    return prisma.batchJobItem.findMany({
+      where: { jobId },
+      orderBy: { position: 'asc' }
+    });
+  }
+
+  async listJobs(skip: number, take: number): Promise<[BatchJob[], number]> {
+    return Promise.all([
+      prisma.batchJob.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take
+      }),
+      prisma.batchJob.count()
+    ]);
+  }
+
+  /**
+   * 取消任务：尚未开始的任务项标记为已取消，正在处理的任务项会在完成后停止
+   */
+  async cancelJob(id: string): Promise<BatchJob> {
+    const queuedItems = await prisma.batchJobItem.findMany({
+      where: { jobId: id, status: 'queued' }
+    });
+    await prisma.batchJobItem.updateMany({
+      where: { id: { in: queuedItems.map(item => item.id) } },
+      data: { status: 'cancelled' }
+    });
+    queuedItems.forEach(item => batchJobEvents.emitItem(item, 'cancelled'));
+
+    const job = await prisma.batchJob.update({
+      where: { id },
+      data: {
+        status: 'cancelled',
+        finishedAt: new Date()
+      }
+    });
+
+    logger.info(`批量任务 ${id} 已取消`);
+    return this.refreshCounts(job.id);
+  }
+
+  /**
+   * 暂停任务：剩余任务项保留在队列中，继续任务后接着处理
+   * 处理期间已被取消的任务保持取消状态
+   */
+  async pauseJob(id: string): Promise<BatchJob> {
+    await prisma.batchJob.updateMany({
+      where: { id, status: { in: ACTIVE_JOB_STATUSES } },
+      data: { status: 'paused' }
+    });
+
+    logger.warn(`批量任务 ${id} 已暂停`);
+    return this.refreshCounts(id);
+  }
+
+  /**
+   * 继续已暂停的任务，因微信验证失败的任务项重新加入队列
+   */
+  async resumeJob(id: string): Promise<{ job: BatchJob; requeued: number }> {
+    const blockedItems = await prisma.batchJobItem.findMany({
+      where: { jobId: id, status: 'failed', errorCode: 'CAPTCHA' }
+    });
+    const { count } = await prisma.batchJobItem.updateMany({
+      where: { id: { in: blockedItems.map(item => item.id) } },
+      data: {
+        status: 'queued',
+        error: null,
+        errorCode: null,
+        result: null
+      }
+    });
+    blockedItems.forEach(item => batchJobEvents.emitItem(item, 'queued'));
+
+    await prisma.batchJob.update({
+      where: { id },
+      data: { status: 'pending' }
+    });
+
+    logger.info(`批量任务 ${id} 继续执行，重新排队 ${count} 个任务项`);
+    return { job: await this.refreshCounts(id), requeued: count };
+  }
+
+  /**
+   * 将失败（及已取消）的任务项重新加入队列
+   */
+  async retryFailedItems(id: string): Promise<{ job: BatchJob; requeued: number }> {
+    const failedItems = await prisma.batchJobItem.findMany({
+      where: { jobId: id, status: { in: ['failed', 'cancelled'] } }
+    });
+    const { count } = await prisma.batchJobItem.updateMany({
+      where: { id: { in: failedItems.map(item => item.id) } },
+      data: {
+        status: 'queued',
+        error: null,
+        errorCode: null,
+        result: null
+      }
+    });
+    failedItems.forEach(item => batchJobEvents.emitItem(item, 'queued'));
+
+    if (count > 0) {
+      await prisma.batchJob.update({
+        where: { id },
+        data: {
+          status: 'pending',
+          finishedAt: null
+        }
+      });
+    }
+
+    logger.info(`批量任务 ${id} 重新排队 ${count} 个任务项`);
+    return { job: await this.refreshCounts(id), requeued: count };
+  }
+
+  /**
+   * 根据任务项状态重新统计成功/失败数量
+   */
+  async refreshCounts(id: string): Promise<BatchJob> {
+    const [successCount, failCount] = await Promise.all([
+      prisma.batchJobItem.count({ where: { jobId: id, status: 'saved' } }),
+      prisma.batchJobItem.count({ where: { jobId: id, status: 'failed' } })
+    ]);
+
+    const job = await prisma.batchJob.update({
+      where: { id },
+      data: { successCount, failCount }
+    });
+    batchJobEvents.emitJob(job);
+    return job;
+  }
+
+  /**
+   * 还原提交任务时的处理选项
+   */
+  toProcessingOptions(job: BatchJob): ProcessingOptions {
+    return {
+      accountName: job.accountName,
+      provider: job.provider,
+      model: job.model,
+      force: job.force,
+      promptTemplateId: job.promptTemplateId,
+      language: job.language,
+      extractionSchemaId: job.extractionSchemaId
+    };
+  }
+
+  /**
+   * 将任务项转换为与同步接口一致的结果结构
+   */
+  toItemResult(item: BatchJobItem): BatchItemResult {
+    if (item.result) {
+      return JSON.parse(item.result);
+    }
+
+    return {
+      url: item.url,
+      title: item.title || item.url,
+      ...(item.error && { error: item.error })
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import { BatchJob, BatchJobItem } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { classifyExtractionError } from '../utils/extractionErrors';
+import { ArticleProcessingService, ProcessedArticle } from './ArticleProcessingService';
+import { batchJobEvents } from './BatchJobEvents';
+import { ACTIVE_JOB_STATUSES, BatchJobService, IN_FLIGHT_ITEM_STATUSES } from './BatchJobService';
+import { TaskLogService } from './TaskLogService';
+
+/**
+ * 后台批量任务执行器
+ * 逐个处理队列中的任务项，进程重启后会继续处理未完成的任务
+ */
+export class BatchJobWorker {
+  private readonly pollInterval = 2000; // 空闲时轮询间隔
+  private readonly itemDelay = 1000; // 任务项之间的延迟，避免API限制
+  private running = false;
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<void>;
+
+  constructor(
+    private readonly processor = new ArticleProcessingService(),
+    private readonly jobService = new BatchJobService(),
+    private readonly taskLogs = new TaskLogService()
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    await this.recover();
+    this.running = true;
+    this.schedule(0);
+    logger.info('批量任务执行器已启动');
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.current;
+    logger.info('批量任务执行器已停止');
+  }
+
+  /**
+   * 有新任务时立即唤醒执行器，而不必等待下一次轮询
+   */
+  wake(): void {
+    if (this.running && !this.current) {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * 将上次进程退出时处理到一半的任务项重新放回队列
+   */
+  private async recover(): Promise<void> {
+    const { count } = await prisma.batchJobItem.updateMany({
+      where: {
+        status: { in: IN_FLIGHT_ITEM_STATUSES },
+        job: { status: { in: ACTIVE_JOB_STATUSES } }
+      },
+      data: { status: 'queued' }
+    });
+
+    if (count > 0) {
+      logger.info(`恢复 ${count} 个中断的任务项`);
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.current = this.drain().finally(() => {
+        this.current = undefined;
+        if (this.running) {
+          this.schedule(this.pollInterval);
+        }
+      });
+    }, delay);
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.running && await this.processNext()) {
+        // 持续处理直到队列为空
+      }
+    } catch (error) {
+      logger.error('批量任务执行器出错:', error);
+    }
+  }
+
+  /**
+   * 处理下一个任务项，队列为空时返回false
+   */
+  private async processNext(): Promise<boolean> {
+    const job = await prisma.batchJob.findFirst({
+      where: { status: { in: ACTIVE_JOB_STATUSES } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (!job) {
+      return false;
+    }
+
+    const item = await prisma.batchJobItem.findFirst({
+      where: { jobId: job.id, status: 'queued' },
+      orderBy: { position: 'asc' }
+    });
+
+    if (!item) {
+      await prisma.batchJob.update({
+        where: { id: job.id },
+        data: { status: 'completed', finishedAt: new Date() }
+      });
+      const finished = await this.jobService.refreshCounts(job.id);
+      logger.info(`批量任务 ${job.id} 完成，成功: ${finished.successCount}，失败: ${finished.failCount}`);
+      await this.taskLogs.record('batch', job.id, finished.startedAt ?? finished.createdAt, {
+        message: `批量任务完成，成功: ${finished.successCount}，失败: ${finished.failCount}`,
+        details: {
+          total: finished.total,
+          successCount: finished.successCount,
+          failCount: finished.failCount
+        }
+      }, finished.finishedAt ?? new Date());
+      return true;
+    }
+
+    if (job.status === 'pending') {
+      const started = await prisma.batchJob.update({
+        where: { id: job.id },
+        data: { status: 'running', startedAt: job.startedAt || new Date() }
+      });
+      batchJobEvents.emitJob(started);
+    }
+
+    await prisma.batchJobItem.update({
+      where: { id: item.id },
+      data: { attempts: { increment: 1 } }
+    });
+
+    const { result, articleId } = await this.processItem(job, item);
+
+    const status = result.error ? 'failed' : 'saved';
+    await prisma.batchJobItem.update({
+      where: { id: item.id },
+      data: {
+        status,
+        title: result.title,
+        result: JSON.stringify(result),
+        error: result.error || null,
+        errorCode: result.errorCode || null,
+        extractAttempts: { increment: result.attempts?.extract ?? 0 },
+        summarizeAttempts: { increment: result.attempts?.summarize ?? 0 },
+        articleId: articleId || null
+      }
+    });
+    batchJobEvents.emitItem(item, status, result);
+
+    // 触发微信验证后暂停任务，继续请求只会延长封禁
+    if (result.errorCode === 'CAPTCHA') {
+      await this.jobService.pauseJob(job.id);
+      return true;
+    }
+    await this.jobService.refreshCounts(job.id);
+
+    await new Promise(resolve => setTimeout(resolve, this.itemDelay));
+    return true;
+  }
+
+  /**
+   * 处理单个任务项；处理过程中抛出的异常（如数据库写入失败）记为该项失败，不影响后续任务项
+   */
+  private async processItem(job: BatchJob, item: BatchJobItem): Promise<ProcessedArticle> {
+    try {
+      return await this.processor.processUrl(
+        item.url,
+        this.jobService.toProcessingOptions(job),
+        async stage => {
+          await prisma.batchJobItem.update({
+            where: { id: item.id },
+            data: { status: stage }
+          });
+          batchJobEvents.emitItem(item, stage);
+        }
+      );
+    } catch (error) {
+      logger.error(`处理任务项失败 ${item.url}:`, error);
+      const failure = classifyExtractionError(error);
+      return {
+        result: {
+          url: item.url,
+          title: item.title || item.url,
+          error: failure.message,
+          errorCode: failure.code,
+          retryable: failure.retryable
+        }
+      };
+    }
+  }
+}
+
+export const batchJobWorker = new BatchJobWorker();
@@ -0,0 +1,249 @@
+import type { Browser, HTTPRequest, Page } from 'puppeteer';
+import { logger } from '../utils/logger';
+import { isPublicUrl } from '../utils/networkGuard';
+
+export interface BrowserPoolOptions {
+  maxConcurrentPages: number; // 同时打开的页面数
+  pageBudget: number; // 每个浏览器实例渲染多少个页面后重启，避免内存持续增长
+  navigationTimeout: number;
+  settleTimeout: number; // 等待正文元素出现的时间，超时后按当前页面返回
+  idleTimeout: number; // 空闲多久后关闭浏览器
+  blockedResources: string[]; // 不加载的资源类型，如 image、media、font、stylesheet
+  executablePath?: string;
+  userAgent: string;
+}
+
+export interface RenderOptions {
+  waitForSelector?: string;
+}
+
+export interface RenderedPage {
+  html: string;
+  url: string; // 跳转后的最终地址
+  status: number | null;
+}
+
+interface BrowserSlot {
+  browser: Browser;
+  rendered: number;
+  open: number;
+}
+
+function defaultOptions(): BrowserPoolOptions {
+  return {
+    maxConcurrentPages: parseInt(process.env.BROWSER_MAX_PAGES || '2'),
+    pageBudget: parseInt(process.env.BROWSER_PAGE_BUDGET || '50'),
+    navigationTimeout: parseInt(process.env.BROWSER_TIMEOUT || '30000'),
+    settleTimeout: parseInt(process.env.BROWSER_SETTLE_TIMEOUT || '5000'),
+    idleTimeout: parseInt(process.env.BROWSER_IDLE_TIMEOUT || '60000'),
+    blockedResources: (process.env.BROWSER_BLOCK_RESOURCES ?? 'image,media,font')
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean),
+    executablePath: process.env.BROWSER_EXECUTABLE_PATH || undefined,
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+  };
+}
+
+/**
+ * 无头浏览器页面池
+ * 按需启动浏览器，限制同时渲染的页面数，渲染一定数量的页面后重启浏览器，空闲时自动关闭
+ * 也可以渲染 file:// 地址，便于用本地HTML文件检验提取效果
+ */
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions;
+  private current: BrowserSlot | null = null;
+  private launching: Promise<BrowserSlot> | null = null;
+  private activePages = 0;
+  private waiters: Array<() => void> = [];
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: Partial<BrowserPoolOptions> = {}) {
+    this.options = { ...defaultOptions(), ...options };
+  }
+
+  /**
+   * 在浏览器中打开页面并返回渲染后的HTML
+   */
+  async render(url: string, options: RenderOptions = {}): Promise<RenderedPage> {
+    await this.acquire();
+
+    let slot: BrowserSlot | null = null;
+    let page: Page | null = null;
+    try {
+      slot = await this.checkout();
+      page = await slot.browser.newPage();
+      await this.preparePage(page);
+
+      const response = await page.goto(url, {
+        waitUntil: 'domcontentloaded',
+        timeout: this.options.navigationTimeout
+      });
+
+      if (options.waitForSelector) {
+        // 等不到时仍返回当前页面，由调用方判断内容是否可用
+        await page.waitForSelector(options.waitForSelector, { timeout: this.options.settleTimeout }).catch(() => undefined);
+      }
+
+      return {
+        html: await page.content(),
+        url: page.url(),
+        status: response?.status() ?? null
+      };
+    } finally {
+      await page?.close().catch(() => undefined);
+      if (slot) {
+        await this.checkin(slot);
+      }
+      this.release();
+    }
+  }
+
+  /**
+   * 关闭浏览器，服务退出时调用
+   */
+  async close(): Promise<void> {
+    this.clearIdleTimer();
+    const slot = this.current ?? (await this.launching?.catch(() => null));
+    this.current = null;
+    if (slot) {
+      await this.closeBrowser(slot);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    this.clearIdleTimer();
+    if (this.activePages >= this.options.maxConcurrentPages) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.activePages++;
+  }
+
+  private release(): void {
+    this.activePages--;
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+      return;
+    }
+
+    if (this.activePages === 0 && this.current) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null;
+        const slot = this.current;
+        this.current = null;
+        if (slot) {
+          logger.info('浏览器空闲，已关闭');
+          void this.closeBrowser(slot);
+        }
+      }, this.options.idleTimeout);
+    }
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /**
+   * 取得可用的浏览器，达到页面预算的实例不再分配新页面，其页面全部关闭后退出
+   */
+  private async checkout(): Promise<BrowserSlot> {
+    if (this.current && this.current.rendered >= this.options.pageBudget) {
+      const retired = this.current;
+      this.current = null;
+      logger.info(`浏览器已渲染 ${retired.rendered} 个页面，重新启动`);
+      if (retired.open === 0) {
+        await this.closeBrowser(retired);
+      }
+    }
+
+    if (!this.current) {
+      this.launching ??= this.launch().finally(() => {
+        this.launching = null;
+      });
+      this.current = await this.launching;
+    }
+
+    this.current.rendered++;
+    this.current.open++;
+    return this.current;
+  }
+
+  private async checkin(slot: BrowserSlot): Promise<void> {
+    slot.open--;
+    if (slot !== this.current && slot.open === 0) {
+      await this.closeBrowser(slot);
+    }
+  }
+
+  private async launch(): Promise<BrowserSlot> {
+    const { default: puppeteer } = await import('puppeteer');
+    const browser = await puppeteer.launch({
+      headless: 'new',
+      executablePath: this.options.executablePath,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+    });
+
+    const slot: BrowserSlot = { browser, rendered: 0, open: 0 };
+    browser.on('disconnected', () => {
+      if (this.current === slot) {
+        logger.warn('浏览器意外退出，下次渲染时重新启动');
+        this.current = null;
+      }
+    });
+
+    logger.info('已启动无头浏览器');
+    return slot;
+  }
+
+  private async closeBrowser(slot: BrowserSlot): Promise<void> {
+    await slot.browser.close().catch(error => {
+      logger.warn('关闭浏览器失败:', error);
+    });
+  }
+
+  private async preparePage(page: Page): Promise<void> {
+    page.setDefaultTimeout(this.options.navigationTimeout);
+    await page.setUserAgent(this.options.userAgent);
+    await page.setExtraHTTPHeaders({ 'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8' });
+
+    // 页面及其加载的资源、跳转都不能访问本机和内网地址，同一页面内按主机缓存检查结果
+    const blocked = new Set(this.options.blockedResources);
+    const checked = new Map<string, Promise<boolean>>();
+    await page.setRequestInterception(true);
+    page.on('request', (request: HTTPRequest) => {
+      void this.interceptRequest(request, blocked, checked);
+    });
+  }
+
+  private async interceptRequest(
+    request: HTTPRequest,
+    blocked: Set<string>,
+    checked: Map<string, Promise<boolean>>
+  ): Promise<void> {
+    try {
+      if (blocked.has(request.resourceType())) {
+        return await request.abort();
+      }
+
+      const url = new URL(request.url());
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        if (!checked.has(url.host)) {
+          checked.set(url.host, isPublicUrl(url.origin));
+        }
+        if (!(await checked.get(url.host))) {
+          logger.warn(`浏览器渲染时拦截内网地址请求: ${url.origin}`);
+          return await request.abort('addressunreachable');
+        }
+      }
+      await request.continue();
+    } catch {
+      // 页面关闭后请求已失效
+    }
+  }
+}
+
+export const browserPool = new BrowserPool();
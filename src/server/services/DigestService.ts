@@ -0,0 +1,296 @@
+import { Digest, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { formatDate } from '../utils/dates';
+import { getCircuitBreaker, withRetry } from '../utils/resilience';
+import { extractJsonObject } from '../utils/summarySchema';
+import { DigestArticle, DigestContent, MAX_TAKEAWAYS, validateDigestPayload, ValidatedDigest } from '../utils/digestSchema';
+import { ChatMessage, CompletionOptions, getProvider, SummarizationProvider } from './providers';
+import { DEFAULT_LANGUAGE } from './SummarizerService';
+import { TaskLogService } from './TaskLogService';
+
+export const DIGEST_PERIODS = ['daily', 'weekly', 'custom'] as const;
+export type DigestPeriod = typeof DIGEST_PERIODS[number];
+
+const PERIOD_DAYS: Record<Exclude<DigestPeriod, 'custom'>, number> = {
+  daily: 1,
+  weekly: 7
+};
+
+const PERIOD_TITLES: Record<DigestPeriod, string> = {
+  daily: '每日摘要',
+  weekly: '每周摘要',
+  custom: '阅读摘要'
+};
+
+export class DigestError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'DigestError';
+  }
+}
+
+export interface DigestOptions {
+  period: DigestPeriod;
+  from?: Date; // custom 时必填；daily/weekly 时由 to 向前推算
+  to?: Date;
+  accountIds?: string[];
+  category?: string;
+  title?: string;
+  language?: string;
+  provider?: string;
+  model?: string;
+}
+
+type DigestSource = Prisma.SummaryGetPayload<{ include: { article: { include: { account: true } } } }>;
+
+/**
+ * 摘要：对一组文章总结做二次综合，按主题归类、提炼核心要点并指出不同来源之间的分歧
+ */
+export class DigestService {
+  private readonly maxArticles = parseInt(process.env.DIGEST_MAX_ARTICLES || '100');
+  private readonly repairAttempts = parseInt(process.env.SUMMARY_REPAIR_ATTEMPTS || '2');
+  private readonly maxRetries = parseInt(process.env.LLM_MAX_RETRIES || '3');
+
+  constructor(private readonly taskLogs = new TaskLogService()) {}
+
+  /**
+   * 计算摘要覆盖的时间范围
+   */
+  resolveRange(period: DigestPeriod, from?: Date, to?: Date): { rangeStart: Date; rangeEnd: Date } {
+    const rangeEnd = to ?? new Date();
+
+    if (period === 'custom') {
+      if (!from) {
+        throw new DigestError('自定义时间范围需要提供开始日期');
+      }
+      return { rangeStart: from, rangeEnd };
+    }
+
+    return {
+      rangeStart: from ?? new Date(rangeEnd.getTime() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000),
+      rangeEnd
+    };
+  }
+
+  async generate(options: DigestOptions): Promise<Digest> {
+    const { rangeStart, rangeEnd } = this.resolveRange(options.period, options.from, options.to);
+    if (rangeStart > rangeEnd) {
+      throw new DigestError('开始日期不能晚于结束日期');
+    }
+
+    const summaries = await prisma.summary.findMany({
+      where: {
+        createdAt: { gte: rangeStart, lte: rangeEnd },
+        parseStatus: { not: 'failed' }, // 解析失败的总结正文为空，不参与汇总
+        ...(options.category && { category: options.category }),
+        ...(options.accountIds?.length && { article: { accountId: { in: options.accountIds } } })
+      },
+      include: { article: { include: { account: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: this.maxArticles
+    });
+
+    if (summaries.length === 0) {
+      throw new DigestError('所选范围内没有文章总结', 404);
+    }
+
+    const title = options.title?.trim()
+      || (options.period === 'daily'
+        ? `${PERIOD_TITLES.daily} ${formatDate(rangeEnd)}`
+        : `${PERIOD_TITLES[options.period]} ${formatDate(rangeStart)} 至 ${formatDate(rangeEnd)}`);
+    const language = options.language || DEFAULT_LANGUAGE;
+    const provider = getProvider(options.provider, options.model);
+
+    return this.taskLogs.track('digest', title, async () => {
+      const digest = await this.synthesize(provider, summaries, language);
+      const articles: DigestArticle[] = summaries.map(summary => ({
+        id: summary.article.id,
+        title: summary.article.title,
+        url: summary.article.url,
+        account: summary.article.account.displayName,
+        publishDate: summary.article.publishDate?.toISOString() ?? null
+      }));
+      const toIds = (refs: number[]) => refs.map(ref => articles[ref - 1].id);
+
+      // 模型未归入任何主题的文章放入“其他”，保证每篇文章都能在摘要中找到
+      const themed = new Set(digest.themes.flatMap(theme => theme.articles));
+      const unthemed = articles.filter((_, index) => !themed.has(index + 1));
+      const themes = digest.themes.map(theme => ({
+        title: theme.title,
+        summary: theme.summary,
+        articleIds: toIds(theme.articles)
+      }));
+      if (unthemed.length > 0) {
+        themes.push({ title: '其他', summary: '未归入以上主题的文章。', articleIds: unthemed.map(article => article.id) });
+      }
+
+      const saved = await prisma.digest.create({
+        data: {
+          title,
+          period: options.period,
+          rangeStart,
+          rangeEnd,
+          accountIds: options.accountIds?.length ? JSON.stringify(options.accountIds) : null,
+          category: options.category || null,
+          language,
+          overview: digest.overview,
+          themes: JSON.stringify(themes),
+          takeaways: JSON.stringify(digest.takeaways.map(takeaway => ({
+            point: takeaway.point,
+            articleIds: toIds(takeaway.articles)
+          }))),
+          contradictions: JSON.stringify(digest.contradictions.map(contradiction => ({
+            topic: contradiction.topic,
+            description: contradiction.description,
+            articleIds: toIds(contradiction.articles)
+          }))),
+          articles: JSON.stringify(articles),
+          articleCount: articles.length,
+          provider: provider.name,
+          model: provider.model
+        }
+      });
+
+      logger.info(`生成摘要 ${saved.id}: ${title}，共 ${articles.length} 篇文章`);
+      return saved;
+    }, saved => ({
+      message: `生成摘要，共 ${saved.articleCount} 篇文章`,
+      details: {
+        digestId: saved.id,
+        provider: saved.provider,
+        model: saved.model,
+        articleCount: saved.articleCount
+      }
+    }));
+  }
+
+  async list(skip: number, take: number): Promise<[Digest[], number]> {
+    return Promise.all([
+      prisma.digest.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take
+      }),
+      prisma.digest.count()
+    ]);
+  }
+
+  async get(id: string): Promise<Digest | null> {
+    return prisma.digest.findUnique({ where: { id } });
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.get(id))) {
+      throw new DigestError('摘要不存在', 404);
+    }
+    await prisma.digest.delete({ where: { id } });
+  }
+
+  /**
+   * 解析保存的JSON字段，供接口返回和渲染使用
+   */
+  toContent(digest: Digest): DigestContent {
+    return {
+      title: digest.title,
+      rangeStart: digest.rangeStart,
+      rangeEnd: digest.rangeEnd,
+      createdAt: digest.createdAt,
+      overview: digest.overview,
+      themes: JSON.parse(digest.themes),
+      takeaways: JSON.parse(digest.takeaways),
+      contradictions: JSON.parse(digest.contradictions),
+      articles: JSON.parse(digest.articles)
+    };
+  }
+
+  /**
+   * 请求模型综合多篇总结，输出不合格时把错误反馈给模型重试
+   */
+  private async synthesize(
+    provider: SummarizationProvider,
+    summaries: DigestSource[],
+    language: string
+  ): Promise<ValidatedDigest> {
+    const format = this.buildFormat();
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `你是一名资深编辑，负责把多篇公众号文章的总结整合成一份${language}摘要。只依据给出的总结内容，不编造信息，引用文章时使用其编号。`
+      },
+      { role: 'user', content: this.buildPrompt(summaries, language, format) }
+    ];
+
+    let output = await this.callProvider(provider, messages, { maxTokens: 3000, temperature: 0.3 });
+
+    for (let attempt = 0; ; attempt++) {
+      const validation = validateDigestPayload(extractJsonObject(output), summaries.length);
+      if (validation.valid) {
+        return validation.value;
+      }
+
+      if (attempt >= this.repairAttempts) {
+        logger.warn(`${provider.name} 摘要输出在 ${attempt} 次修复后仍不合格: ${validation.errors.join('；')}`);
+        throw new DigestError('模型输出的摘要格式不正确，请稍后重试', 502);
+      }
+
+      logger.warn(`${provider.name} 摘要输出不合格，第 ${attempt + 1} 次修复: ${validation.errors.join('；')}`);
+      messages.push(
+        { role: 'assistant', content: output },
+        {
+          role: 'user',
+          content: `上面的输出不符合要求：\n${validation.errors.map(error => `- ${error}`).join('\n')}\n\n请只输出修正后的JSON对象，格式如下：\n${format}`
+        }
+      );
+      output = await this.callProvider(provider, messages, { maxTokens: 3000, temperature: 0, jsonMode: true });
+    }
+  }
+
+  private buildPrompt(summaries: DigestSource[], language: string, format: string): string {
+    const articles = summaries.map((summary, index) => {
+      const keyPoints: string[] = JSON.parse(summary.keyPoints);
+      return [
+        `[${index + 1}] ${summary.article.title}`,
+        `公众号：${summary.article.account.displayName}；分类：${summary.category ?? '未分类'}；情感：${summary.sentiment ?? 'neutral'}`,
+        `总结：${summary.content}`,
+        `要点：${keyPoints.join('；')}`
+      ].join('\n');
+    }).join('\n\n');
+
+    return `下面是 ${summaries.length} 篇文章的总结，请用${language}完成：
+1. 把文章按主题归类，每个主题写一段综述，并列出属于该主题的文章编号
+2. 提炼最多 ${MAX_TAKEAWAYS} 条最值得关注的核心要点，每条注明依据的文章编号
+3. 找出不同文章之间相互矛盾或观点对立之处，说明分歧并列出涉及的文章编号（至少两篇）；没有分歧时返回空数组
+
+${articles}
+
+请以JSON格式返回：
+${format}`;
+  }
+
+  private buildFormat(): string {
+    return `{
+  "overview": "对所有文章的整体概述（100-200字）",
+  "themes": [{ "title": "主题名称", "summary": "主题综述", "articles": [1, 2] }],
+  "takeaways": [{ "point": "核心要点", "articles": [1] }],
+  "contradictions": [{ "topic": "分歧话题", "description": "各方观点的差异", "articles": [2, 3] }]
+}`;
+  }
+
+  /**
+   * 经熔断器和重试调用模型接口
+   */
+  private async callProvider(
+    provider: SummarizationProvider,
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): Promise<string> {
+    const { value } = await getCircuitBreaker(provider.name).execute(() =>
+      withRetry(() => provider.complete(messages, options), {
+        label: `${provider.name} API`,
+        retries: this.maxRetries
+      })
+    );
+    return value;
+  }
+}
@@ -0,0 +1,317 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { formatDate } from '../utils/dates';
+import { SearchIndexService } from './SearchIndexService';
+
+export const EXPORT_FORMATS = ['md', 'csv', 'jsonl', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// 导出范围：某个批量任务、按条件筛选的历史记录，或一次搜索的全部结果
+export type ExportScope =
+  | { type: 'job'; jobId: string }
+  | { type: 'history'; accountName?: string; from?: Date; to?: Date; category?: string; sentiment?: string }
+  | { type: 'search'; q?: string; category?: string; sentiment?: string; accountId?: string };
+
+export interface ExportRow {
+  id: string;
+  title: string;
+  url: string;
+  account: string;
+  author: string | null;
+  publishDate: Date | null;
+  createdAt: Date;
+  content: string;
+  markdown: string | null;
+  summary: string | null;
+  keyPoints: string[];
+  sentiment: string | null;
+  category: string | null;
+  provider: string | null;
+  model: string | null;
+  fields: Record<string, unknown> | null;
+}
+
+type ArticleWithSummary = Prisma.ArticleGetPayload<{ include: { summary: true; account: true } }>;
+
+const withSummary = { summary: true, account: true } as const;
+
+// CSV 和 Excel 的列，一篇文章一行
+const TABLE_COLUMNS: Array<{ header: string; width: number; value: (row: ExportRow) => string }> = [
+  { header: '标题', width: 40, value: row => row.title },
+  { header: '链接', width: 50, value: row => row.url },
+  { header: '公众号', width: 16, value: row => row.account },
+  { header: '作者', width: 16, value: row => row.author ?? '' },
+  { header: '发布日期', width: 12, value: row => (row.publishDate ? formatDate(row.publishDate) : '') },
+  { header: '分类', width: 12, value: row => row.category ?? '' },
+  { header: '情感', width: 10, value: row => row.sentiment ?? '' },
+  { header: '总结', width: 60, value: row => row.summary ?? '' },
+  { header: '关键点', width: 60, value: row => row.keyPoints.join('\n') },
+  { header: '模型', width: 20, value: row => [row.provider, row.model].filter(Boolean).join('/') },
+  { header: '提取字段', width: 40, value: row => (row.fields ? JSON.stringify(row.fields) : '') }
+];
+
+function toExportRow(article: ArticleWithSummary): ExportRow {
+  return {
+    id: article.id,
+    title: article.title,
+    url: article.url,
+    account: article.account.displayName,
+    author: article.author,
+    publishDate: article.publishDate,
+    createdAt: article.createdAt,
+    content: article.content,
+    markdown: article.markdown,
+    summary: article.summary?.content ?? null,
+    keyPoints: article.summary ? JSON.parse(article.summary.keyPoints) : [],
+    sentiment: article.summary?.sentiment ?? null,
+    category: article.summary?.category ?? null,
+    provider: article.summary?.provider ?? null,
+    model: article.summary?.model ?? null,
+    fields: article.summary?.extractedFields ? JSON.parse(article.summary.extractedFields) : null
+  };
+}
+
+// 以这些字符开头的单元格会被电子表格当作公式执行
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 导出文章及其总结
+ * 按页从数据库读取并边读边写，导出大量文章时不会一次性载入内存
+ */
+export class ExportService {
+  private readonly pageSize = 100;
+
+  constructor(private readonly searchIndex = new SearchIndexService()) {}
+
+  /**
+   * 将导出范围内的文章写入输出流，返回导出的文章数
+   */
+  async write(format: ExportFormat, scope: ExportScope, output: Writable): Promise<number> {
+    if (format === 'xlsx') {
+      return this.writeXlsx(scope, output);
+    }
+
+    let count = 0;
+    if (format === 'md') {
+      await this.writeChunk(output, `# 文章总结导出\n\n> 导出时间：${new Date().toLocaleString('zh-CN')}\n`);
+    }
+    if (format === 'csv') {
+      // 带BOM，Excel打开时才能正确识别UTF-8中文
+      await this.writeChunk(output, '\uFEFF' + TABLE_COLUMNS.map(column => column.header).join(',') + '\r\n');
+    }
+
+    for await (const row of this.rows(scope)) {
+      count++;
+      if (format === 'md') {
+        await this.writeChunk(output, this.toMarkdown(row));
+      } else if (format === 'csv') {
+        await this.writeChunk(output, TABLE_COLUMNS.map(column => escapeCsv(column.value(row))).join(',') + '\r\n');
+      } else {
+        await this.writeChunk(output, JSON.stringify(row) + '\n');
+      }
+    }
+
+    output.end();
+    return count;
+  }
+
+  /**
+   * 按导出范围逐篇读取文章
+   */
+  async *rows(scope: ExportScope): AsyncGenerator<ExportRow> {
+    if (scope.type === 'job') {
+      yield* this.jobRows(scope.jobId);
+    } else if (scope.type === 'search') {
+      yield* this.searchRows(scope);
+    } else {
+      yield* this.historyRows(scope);
+    }
+  }
+
+  private async writeXlsx(scope: ExportScope, output: Writable): Promise<number> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const sheet = workbook.addWorksheet('文章总结');
+    sheet.columns = TABLE_COLUMNS.map((column, index) => ({ header: column.header, key: String(index), width: column.width }));
+
+    let count = 0;
+    for await (const row of this.rows(scope)) {
+      count++;
+      sheet.addRow(TABLE_COLUMNS.map(column => column.value(row))).commit();
+    }
+
+    sheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  private toMarkdown(row: ExportRow): string {
+    const lines = [
+      '',
+      `## ${row.title}`,
+      '',
+      `- 链接：${row.url}`,
+      `- 公众号：${row.account}`,
+      ...(row.author ? [`- 作者：${row.author}`] : []),
+      ...(row.publishDate ? [`- 发布日期：${formatDate(row.publishDate)}`] : []),
+      ...(row.category ? [`- 分类：${row.category}`] : []),
+      ...(row.sentiment ? [`- 情感：${row.sentiment}`] : []),
+      ''
+    ];
+
+    if (row.summary) {
+      lines.push('### 总结', '', row.summary, '');
+    } else {
+      lines.push('*暂无总结*', '');
+    }
+
+    if (row.keyPoints.length > 0) {
+      lines.push('### 关键点', '', ...row.keyPoints.map(point => `- ${point}`), '');
+    }
+
+    if (row.fields && Object.keys(row.fields).length > 0) {
+      lines.push('### 提取字段', '', ...Object.entries(row.fields).map(([name, value]) =>
+        `- ${name}：${Array.isArray(value) ? value.join('、') : value ?? '未提及'}`
+      ), '');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 写入一段内容，输出缓冲区已满时等待其排空
+   * 客户端中途断开时输出流被销毁，不会再触发 drain，此时抛出错误结束导出
+   */
+  private async writeChunk(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) {
+      throw new Error('客户端已断开，导出中止');
+    }
+    if (output.write(chunk)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    try {
+      // 输出流出错时 once 直接拒绝
+      await Promise.race([
+        once(output, 'drain', { signal: controller.signal }),
+        once(output, 'close', { signal: controller.signal })
+      ]);
+    } finally {
+      controller.abort();
+    }
+    if (output.destroyed) {
+      throw new Error('客户端已断开，导出中止');
+    }
+  }
+
+  private async *jobRows(jobId: string): AsyncGenerator<ExportRow> {
+    // 同一篇文章可能在任务中出现多次，只导出一次
+    const exported = new Set<string>();
+
+    for (let skip = 0; ; skip += this.pageSize) {
+      const items = await prisma.batchJobItem.findMany({
+        where: { jobId, articleId: { not: null } },
+        orderBy: { position: 'asc' },
+        select: { articleId: true },
+        skip,
+        take: this.pageSize
+      });
+      if (items.length === 0) {
+        return;
+      }
+
+      const ids = items.map(item => item.articleId!);
+      const articles = await prisma.article.findMany({
+        where: { id: { in: ids } },
+        include: withSummary
+      });
+      const articlesById = new Map(articles.map(article => [article.id, article]));
+
+      // 文章可能已被删除
+      for (const id of ids) {
+        const article = articlesById.get(id);
+        if (article && !exported.has(id)) {
+          exported.add(id);
+          yield toExportRow(article);
+        }
+      }
+    }
+  }
+
+  private async *historyRows(scope: Extract<ExportScope, { type: 'history' }>): AsyncGenerator<ExportRow> {
+    const where: Prisma.ArticleWhereInput = {
+      ...(scope.accountName && { account: { name: scope.accountName } }),
+      ...((scope.from || scope.to) && { createdAt: { gte: scope.from, lte: scope.to } }),
+      ...((scope.category || scope.sentiment) && {
+        summary: {
+          ...(scope.category && { category: scope.category }),
+          ...(scope.sentiment && { sentiment: scope.sentiment })
+        }
+      })
+    };
+
+    let cursor: string | undefined;
+    for (;;) {
+      const articles = await prisma.article.findMany({
+        where,
+        include: withSummary,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: this.pageSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+      if (articles.length === 0) {
+        return;
+      }
+
+      for (const article of articles) {
+        yield toExportRow(article);
+      }
+      cursor = articles[articles.length - 1].id;
+    }
+  }
+
+  private async *searchRows(scope: Extract<ExportScope, { type: 'search' }>): AsyncGenerator<ExportRow> {
+    for (let skip = 0; ; skip += this.pageSize) {
+      const { hits } = await this.searchIndex.search({
+        q: scope.q,
+        category: scope.category,
+        sentiment: scope.sentiment,
+        accountId: scope.accountId,
+        skip,
+        take: this.pageSize
+      });
+      if (hits.length === 0) {
+        return;
+      }
+
+      const articles = await prisma.article.findMany({
+        where: { id: { in: hits.map(hit => hit.articleId) } },
+        include: withSummary
+      });
+      const articlesById = new Map(articles.map(article => [article.id, article]));
+
+      // 保持搜索结果的相关度顺序
+      for (const hit of hits) {
+        const article = articlesById.get(hit.articleId);
+        if (article) {
+          yield toExportRow(article);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { ExtractionSchema } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { ExtractionField, validateFieldDefinitions } from '../utils/summarySchema';
+
+export interface ExtractionSchemaInput {
+  name: string;
+  description?: string | null;
+  fields: unknown;
+}
+
+export interface ResolvedExtractionSchema {
+  id: string;
+  fields: ExtractionField[];
+  fieldsHash: string; // 字段定义变化后旧的总结缓存不再命中
+}
+
+/**
+ * 字段定义不合法或名称冲突时抛出，由路由转换为4xx响应
+ */
+export class ExtractionSchemaError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'ExtractionSchemaError';
+  }
+}
+
+/**
+ * 自定义提取字段管理
+ * 字段定义可直接修改，已生成的总结保留当时提取的结果
+ */
+export class ExtractionSchemaService {
+  async listSchemas(): Promise<ExtractionSchema[]> {
+    return prisma.extractionSchema.findMany({ orderBy: { name: 'asc' } });
+  }
+
+  async getSchema(id: string): Promise<ExtractionSchema | null> {
+    return prisma.extractionSchema.findUnique({ where: { id } });
+  }
+
+  async createSchema(input: ExtractionSchemaInput): Promise<ExtractionSchema> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new ExtractionSchemaError('名称不能为空');
+    }
+
+    if (await prisma.extractionSchema.findUnique({ where: { name } })) {
+      throw new ExtractionSchemaError(`提取字段定义 ${name} 已存在`, 409);
+    }
+
+    const schema = await prisma.extractionSchema.create({
+      data: {
+        name,
+        description: input.description ?? null,
+        fields: JSON.stringify(this.parseFields(input.fields))
+      }
+    });
+
+    logger.info(`创建提取字段定义 ${name}`);
+    return schema;
+  }
+
+  async updateSchema(id: string, input: Partial<ExtractionSchemaInput>): Promise<ExtractionSchema | null> {
+    const existing = await this.getSchema(id);
+    if (!existing) {
+      return null;
+    }
+
+    const name = input.name?.trim();
+    if (name && name !== existing.name && await prisma.extractionSchema.findUnique({ where: { name } })) {
+      throw new ExtractionSchemaError(`提取字段定义 ${name} 已存在`, 409);
+    }
+
+    return prisma.extractionSchema.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.fields !== undefined && { fields: JSON.stringify(this.parseFields(input.fields)) })
+      }
+    });
+  }
+
+  /**
+   * 删除字段定义，引用它的账户和总结会解除关联，已提取的字段值保留
+   */
+  async deleteSchema(id: string): Promise<boolean> {
+    const existing = await this.getSchema(id);
+    if (!existing) {
+      return false;
+    }
+
+    await prisma.extractionSchema.delete({ where: { id } });
+    logger.info(`删除提取字段定义 ${existing.name}`);
+    return true;
+  }
+
+  /**
+   * 为账户指定默认的提取字段定义，传入null时取消
+   */
+  async assignToAccount(accountName: string, schemaId: string | null): Promise<void> {
+    if (schemaId && !(await this.getSchema(schemaId))) {
+      throw new ExtractionSchemaError('提取字段定义不存在', 404);
+    }
+
+    await prisma.weChatAccount.upsert({
+      where: { name: accountName },
+      update: { extractionSchemaId: schemaId },
+      create: {
+        name: accountName,
+        displayName: accountName,
+        extractionSchemaId: schemaId
+      }
+    });
+  }
+
+  /**
+   * 解析总结时需要提取的字段，未指定时返回null
+   */
+  async resolveSchema(schemaId?: string | null): Promise<ResolvedExtractionSchema | null> {
+    if (!schemaId) {
+      return null;
+    }
+
+    const schema = await this.getSchema(schemaId);
+    if (!schema) {
+      throw new ExtractionSchemaError(`提取字段定义不存在: ${schemaId}`, 404);
+    }
+
+    return {
+      id: schema.id,
+      fields: JSON.parse(schema.fields),
+      fieldsHash: createHash('sha256').update(schema.fields).digest('hex')
+    };
+  }
+
+  private parseFields(fields: unknown): ExtractionField[] {
+    const validation = validateFieldDefinitions(fields);
+    if (!validation.valid) {
+      throw new ExtractionSchemaError(validation.errors.join('；'));
+    }
+    return validation.value;
+  }
+}
@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { Feed, FeedItem } from '../utils/feedRenderer';
+import { SearchIndexService } from './SearchIndexService';
+
+export const FEED_FORMATS = ['rss', 'atom'] as const;
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+// 订阅范围：某个公众号、某个分类，或一个已保存的搜索
+export type FeedScope =
+  | { type: 'account'; accountId: string }
+  | { type: 'category'; category: string }
+  | { type: 'search'; searchId: string };
+
+export interface FeedLinks {
+  link: string; // 站点首页
+  selfUrl: string; // 本次请求的订阅地址
+}
+
+type SummarizedArticle = Prisma.ArticleGetPayload<{ include: { summary: true; account: true } }>;
+
+const withSummary = { summary: true, account: true } as const;
+
+function toFeedItem(article: SummarizedArticle): FeedItem {
+  const summary = article.summary!;
+  return {
+    id: `urn:wechat-batch-summarizer:article:${article.id}`,
+    title: article.title,
+    url: article.url,
+    author: article.author || article.account.displayName,
+    published: article.publishDate,
+    updated: summary.updatedAt,
+    summary: summary.content,
+    keyPoints: JSON.parse(summary.keyPoints),
+    category: summary.category,
+    sentiment: summary.sentiment
+  };
+}
+
+/**
+ * 已总结文章的订阅源，供 RSS/Atom 阅读器订阅
+ * 只包含有总结的文章（不含解析失败的总结），按文章入库时间倒序，最多 FEED_ITEM_LIMIT 篇
+ */
+export class FeedService {
+  private readonly itemLimit = parseInt(process.env.FEED_ITEM_LIMIT || '50');
+
+  constructor(private readonly searchIndex = new SearchIndexService()) {}
+
+  /**
+   * 生成订阅内容；公众号、分类或已保存的搜索不存在时返回null
+   */
+  async build(scope: FeedScope, links: FeedLinks): Promise<Feed | null> {
+    const source = await this.describe(scope);
+    if (!source) {
+      return null;
+    }
+
+    const articles = await this.articles(scope);
+    const items = articles.filter(article => article.summary).map(toFeedItem);
+    const updated = items.reduce(
+      (latest, item) => (item.updated > latest ? item.updated : latest),
+      source.updatedAt
+    );
+
+    return {
+      id: `urn:wechat-batch-summarizer:feed:${scope.type}:${source.key}`,
+      title: source.title,
+      description: source.description,
+      ...links,
+      updated,
+      items
+    };
+  }
+
+  /**
+   * 订阅的标题和说明；updatedAt 为订阅本身的修改时间，订阅为空时作为最后更新时间
+   */
+  private async describe(scope: FeedScope): Promise<{ key: string; title: string; description: string; updatedAt: Date } | null> {
+    if (scope.type === 'account') {
+      const account = await prisma.weChatAccount.findUnique({ where: { id: scope.accountId } });
+      return account && {
+        key: account.id,
+        title: `${account.displayName} · 文章总结`,
+        description: account.description || `公众号“${account.displayName}”的文章总结`,
+        updatedAt: account.updatedAt
+      };
+    }
+
+    if (scope.type === 'category') {
+      const exists = await prisma.summary.findFirst({ where: { category: scope.category }, select: { id: true } });
+      return exists && {
+        key: encodeURIComponent(scope.category),
+        title: `${scope.category} · 文章总结`,
+        description: `分类“${scope.category}”下的文章总结`,
+        updatedAt: new Date(0)
+      };
+    }
+
+    const search = await prisma.savedSearch.findUnique({ where: { id: scope.searchId } });
+    return search && {
+      key: search.id,
+      title: `${search.name} · 文章总结`,
+      description: `已保存的搜索“${search.name}”的文章总结`,
+      updatedAt: search.updatedAt
+    };
+  }
+
+  private async articles(scope: FeedScope): Promise<SummarizedArticle[]> {
+    if (scope.type !== 'search') {
+      return prisma.article.findMany({
+        where: scope.type === 'account'
+          ? { accountId: scope.accountId, summary: { is: { parseStatus: { not: 'failed' } } } }
+          : { summary: { is: { category: scope.category, parseStatus: { not: 'failed' } } } },
+        include: withSummary,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: this.itemLimit
+      });
+    }
+
+    const search = await prisma.savedSearch.findUniqueOrThrow({ where: { id: scope.searchId } });
+    const { hits } = await this.searchIndex.search({
+      q: search.q ?? undefined,
+      category: search.category ?? undefined,
+      sentiment: search.sentiment ?? undefined,
+      accountId: search.accountId ?? undefined,
+      summarizedOnly: true,
+      order: 'recent',
+      skip: 0,
+      take: this.itemLimit
+    });
+
+    const articles = await prisma.article.findMany({
+      where: { id: { in: hits.map(hit => hit.articleId) } },
+      include: withSummary
+    });
+    const articlesById = new Map(articles.map(article => [article.id, article]));
+    return hits
+      .map(hit => articlesById.get(hit.articleId))
+      .filter((article): article is SummarizedArticle => !!article);
+  }
+}
@@ -0,0 +1,203 @@
+import { PromptTemplate } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { findTemplateVariables, validatePromptTemplate } from '../utils/promptTemplate';
+import { BUILTIN_PROMPT, SummaryPrompt } from './SummarizerService';
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string | null;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+/**
+ * 模板校验失败或版本冲突时抛出，由路由转换为4xx响应
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * 提示词模板管理
+ * 每个版本一经创建不可修改，编辑模板会生成同名的新版本，已有总结仍指向生成它的版本
+ */
+export class PromptTemplateService {
+  /**
+   * 列出每个模板的最新版本
+   */
+  async listLatest(): Promise<Array<PromptTemplate & { versionCount: number }>> {
+    const templates = await prisma.promptTemplate.findMany({
+      orderBy: [{ name: 'asc' }, { version: 'desc' }]
+    });
+
+    const latest = new Map<string, PromptTemplate & { versionCount: number }>();
+    for (const template of templates) {
+      const existing = latest.get(template.name);
+      if (existing) {
+        existing.versionCount++;
+      } else {
+        latest.set(template.name, { ...template, versionCount: 1 });
+      }
+    }
+
+    return [...latest.values()];
+  }
+
+  async getTemplate(id: string): Promise<PromptTemplate | null> {
+    return prisma.promptTemplate.findUnique({ where: { id } });
+  }
+
+  /**
+   * 列出与指定版本同名的全部版本，新版本在前
+   */
+  async listVersions(id: string): Promise<PromptTemplate[] | null> {
+    const template = await this.getTemplate(id);
+    if (!template) {
+      return null;
+    }
+
+    return prisma.promptTemplate.findMany({
+      where: { name: template.name },
+      orderBy: { version: 'desc' }
+    });
+  }
+
+  /**
+   * 创建新模板（版本1），同名模板已存在时拒绝
+   */
+  async createTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new PromptTemplateError('模板名称不能为空');
+    }
+    if (name.includes('@') || name.startsWith('builtin')) {
+      throw new PromptTemplateError('模板名称不能包含 @，也不能以 builtin 开头');
+    }
+
+    const existing = await prisma.promptTemplate.findFirst({ where: { name } });
+    if (existing) {
+      throw new PromptTemplateError(`模板 ${name} 已存在，请通过更新接口创建新版本`, 409);
+    }
+
+    return this.saveVersion(name, 1, input);
+  }
+
+  /**
+   * 基于指定版本创建新版本，未提供的字段沿用原版本
+   */
+  async createVersion(id: string, input: Partial<PromptTemplateInput>): Promise<PromptTemplate | null> {
+    const base = await this.getTemplate(id);
+    if (!base) {
+      return null;
+    }
+
+    const latest = await prisma.promptTemplate.findFirst({
+      where: { name: base.name },
+      orderBy: { version: 'desc' }
+    });
+
+    return this.saveVersion(base.name, (latest?.version ?? base.version) + 1, {
+      name: base.name,
+      description: input.description !== undefined ? input.description : base.description,
+      systemPrompt: input.systemPrompt ?? base.systemPrompt,
+      userPrompt: input.userPrompt ?? base.userPrompt
+    });
+  }
+
+  /**
+   * 删除一个版本；已有总结或账户引用的版本不允许删除，以保留总结的来源
+   */
+  async deleteTemplate(id: string): Promise<boolean> {
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id },
+      include: { _count: { select: { summaries: true, accounts: true } } }
+    });
+    if (!template) {
+      return false;
+    }
+
+    if (template._count.summaries > 0 || template._count.accounts > 0) {
+      throw new PromptTemplateError(
+        `模板 ${template.name}@v${template.version} 仍被 ${template._count.summaries} 条总结、${template._count.accounts} 个账户引用，无法删除`,
+        409
+      );
+    }
+
+    await prisma.promptTemplate.delete({ where: { id } });
+    logger.info(`删除提示词模板 ${template.name}@v${template.version}`);
+    return true;
+  }
+
+  /**
+   * 为账户指定默认模板，传入null时恢复为内置提示词
+   */
+  async assignToAccount(accountName: string, templateId: string | null, language?: string | null): Promise<void> {
+    if (templateId && !(await this.getTemplate(templateId))) {
+      throw new PromptTemplateError('提示词模板不存在', 404);
+    }
+
+    await prisma.weChatAccount.upsert({
+      where: { name: accountName },
+      update: {
+        promptTemplateId: templateId,
+        ...(language !== undefined ? { language } : {})
+      },
+      create: {
+        name: accountName,
+        displayName: accountName,
+        promptTemplateId: templateId,
+        language: language ?? null
+      }
+    });
+  }
+
+  /**
+   * 解析总结时使用的提示词，未指定模板时返回内置提示词
+   */
+  async resolvePrompt(templateId?: string | null): Promise<SummaryPrompt> {
+    if (!templateId) {
+      return BUILTIN_PROMPT;
+    }
+
+    const template = await this.getTemplate(templateId);
+    if (!template) {
+      throw new PromptTemplateError(`提示词模板不存在: ${templateId}`, 404);
+    }
+
+    return toSummaryPrompt(template);
+  }
+
+  private async saveVersion(name: string, version: number, input: PromptTemplateInput): Promise<PromptTemplate> {
+    const errors = validatePromptTemplate(input.systemPrompt, input.userPrompt);
+    if (errors.length > 0) {
+      throw new PromptTemplateError(errors.join('；'));
+    }
+
+    const template = await prisma.promptTemplate.create({
+      data: {
+        name,
+        version,
+        description: input.description ?? null,
+        systemPrompt: input.systemPrompt,
+        userPrompt: input.userPrompt,
+        variables: JSON.stringify(findTemplateVariables(`${input.systemPrompt}\n${input.userPrompt}`))
+      }
+    });
+
+    logger.info(`保存提示词模板 ${name}@v${version}`);
+    return template;
+  }
+}
+
+export function toSummaryPrompt(template: PromptTemplate): SummaryPrompt {
+  return {
+    version: `${template.name}@v${template.version}`,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+    templateId: template.id
+  };
+}
@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { escapeHtml } from '../utils/html';
+
+// trigram 分词按3个字符切分，不依赖空格，适用于中文；短于3个字符的词无法走索引，改用LIKE
+const MIN_INDEXED_TERM_LENGTH = 3;
+
+// 高亮标记先用控制字符占位，转义HTML后再替换为<mark>，避免正文中的尖括号被当作标签
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+const SNIPPET_RADIUS = 40;
+
+export interface SearchQuery {
+  q?: string;
+  category?: string;
+  sentiment?: string;
+  accountId?: string;
+  summarizedOnly?: boolean; // 只返回已有总结的文章，不含解析失败的总结
+  order?: 'relevance' | 'recent'; // 默认按相关度，recent 按创建时间倒序
+  skip: number;
+  take: number;
+}
+
+export interface SearchHit {
+  articleId: string;
+  score: number | null; // bm25 得分，越小越相关；仅短词检索时为null
+  highlight: {
+    title: string;
+    snippet: string;
+  };
+}
+
+interface SearchRow {
+  articleId: string;
+  score: number | null;
+  title: string;
+  snippet: string;
+}
+
+function toHighlightHtml(marked: string): string {
+  return escapeHtml(marked)
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>');
+}
+
+/**
+ * 文章全文索引（SQLite FTS5），覆盖标题、正文、总结和关键点
+ * 虚拟表不在Prisma schema中管理，启动时自动创建；索引缺失或不完整时自动重建
+ */
+export class SearchIndexService {
+  async ensureIndex(): Promise<void> {
+    await prisma.$executeRawUnsafe(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS article_search USING fts5(
+        article_id UNINDEXED,
+        title,
+        content,
+        summary,
+        key_points,
+        tokenize = 'trigram'
+      )
+    `);
+
+    const [indexed, articles] = await Promise.all([
+      prisma.$queryRawUnsafe<Array<{ count: bigint }>>('SELECT COUNT(*) AS count FROM article_search'),
+      prisma.article.count()
+    ]);
+
+    if (Number(indexed[0].count) !== articles) {
+      await this.rebuild();
+    }
+  }
+
+  /**
+   * 清空并重建全部索引
+   */
+  async rebuild(): Promise<number> {
+    const articles = await prisma.article.findMany({ select: { id: true } });
+
+    await prisma.$executeRawUnsafe('DELETE FROM article_search');
+    for (const article of articles) {
+      await this.indexArticle(article.id);
+    }
+
+    logger.info(`全文索引重建完成，共 ${articles.length} 篇文章`);
+    return articles.length;
+  }
+
+  /**
+   * 写入或更新单篇文章的索引，文章或总结保存后调用
+   */
+  async indexArticle(articleId: string): Promise<void> {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      include: { summary: true }
+    });
+
+    await this.removeArticle(articleId);
+    if (!article) {
+      return;
+    }
+
+    const keyPoints: string[] = article.summary ? JSON.parse(article.summary.keyPoints) : [];
+    await prisma.$executeRaw`
+      INSERT INTO article_search (article_id, title, content, summary, key_points)
+      VALUES (${article.id}, ${article.title}, ${article.content}, ${article.summary?.content ?? ''}, ${keyPoints.join('\n')})
+    `;
+  }
+
+  async removeArticle(articleId: string): Promise<void> {
+    await prisma.$executeRaw`DELETE FROM article_search WHERE article_id = ${articleId}`;
+  }
+
+  /**
+   * 检索文章，返回当前页命中及总数
+   * 3个字符及以上的词走FTS并按bm25排序，较短的词用LIKE匹配；只有短词或指定 recent 时按创建时间排序
+   */
+  async search(query: SearchQuery): Promise<{ hits: SearchHit[]; total: number }> {
+    const terms = (query.q ?? '')
+      .split(/\s+/)
+      .map(term => term.trim())
+      .filter(Boolean);
+    const indexedTerms = terms.filter(term => [...term].length >= MIN_INDEXED_TERM_LENGTH);
+    const shortTerms = terms.filter(term => [...term].length < MIN_INDEXED_TERM_LENGTH);
+
+    const conditions: Prisma.Sql[] = [];
+    if (indexedTerms.length > 0) {
+      // 每个词作为短语匹配，多个词之间为AND
+      const match = indexedTerms.map(term => `"${term.replace(/"/g, '""')}"`).join(' ');
+      conditions.push(Prisma.sql`article_search MATCH ${match}`);
+    }
+    for (const term of shortTerms) {
+      const pattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(Prisma.sql`(
+        s.title LIKE ${pattern} ESCAPE '\\' OR s.content LIKE ${pattern} ESCAPE '\\'
+        OR s.summary LIKE ${pattern} ESCAPE '\\' OR s.key_points LIKE ${pattern} ESCAPE '\\'
+      )`);
+    }
+    if (query.category) {
+      conditions.push(Prisma.sql`sm.category = ${query.category}`);
+    }
+    if (query.sentiment) {
+      conditions.push(Prisma.sql`sm.sentiment = ${query.sentiment}`);
+    }
+    if (query.accountId) {
+      conditions.push(Prisma.sql`a.accountId = ${query.accountId}`);
+    }
+    if (query.summarizedOnly) {
+      conditions.push(Prisma.sql`sm.id IS NOT NULL AND sm.parseStatus != 'failed'`);
+    }
+
+    const where = conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+    const from = Prisma.sql`
+      FROM article_search s
+      JOIN articles a ON a.id = s.article_id
+      LEFT JOIN summaries sm ON sm.articleId = s.article_id
+      ${where}
+    `;
+
+    const useFts = indexedTerms.length > 0;
+    const [rows, counts] = await Promise.all([
+      prisma.$queryRaw<SearchRow[]>`
+        SELECT
+          s.article_id AS articleId,
+          ${useFts ? Prisma.sql`bm25(article_search, 0, 10.0, 1.0, 4.0, 2.0)` : Prisma.sql`NULL`} AS score,
+          ${useFts ? Prisma.sql`highlight(article_search, 1, ${MARK_START}, ${MARK_END})` : Prisma.sql`s.title`} AS title,
+          ${useFts ? Prisma.sql`snippet(article_search, -1, ${MARK_START}, ${MARK_END}, '…', 32)` : Prisma.sql`''`} AS snippet
+        ${from}
+        ORDER BY ${useFts && query.order !== 'recent' ? Prisma.sql`score ASC` : Prisma.sql`a.createdAt DESC`}
+        LIMIT ${query.take} OFFSET ${query.skip}
+      `,
+      prisma.$queryRaw<Array<{ count: bigint }>>`SELECT COUNT(*) AS count ${from}`
+    ]);
+
+    const hits = await Promise.all(rows.map(async row => ({
+      articleId: row.articleId,
+      score: row.score,
+      highlight: useFts
+        ? { title: toHighlightHtml(row.title), snippet: toHighlightHtml(row.snippet) }
+        : await this.highlightWithoutIndex(row.articleId, row.title, shortTerms)
+    })));
+
+    return { hits, total: Number(counts[0].count) };
+  }
+
+  /**
+   * 仅有短词时FTS无法生成摘录，手动截取第一个命中位置附近的文本
+   */
+  private async highlightWithoutIndex(
+    articleId: string,
+    title: string,
+    terms: string[]
+  ): Promise<SearchHit['highlight']> {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      include: { summary: true }
+    });
+    const text = [article?.summary?.content, article?.content].filter(Boolean).join('\n');
+
+    const markTerms = (value: string) => terms.reduce(
+      (marked, term) => marked.split(term).join(`${MARK_START}${term}${MARK_END}`),
+      value
+    );
+
+    const positions = terms.map(term => text.indexOf(term)).filter(index => index >= 0);
+    const first = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, first - SNIPPET_RADIUS);
+    const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+    const excerpt = (start > 0 ? '…' : '') + text.substring(start, end) + (end < text.length ? '…' : '');
+
+    return {
+      title: toHighlightHtml(markTerms(title)),
+      snippet: toHighlightHtml(markTerms(excerpt))
+    };
+  }
+}
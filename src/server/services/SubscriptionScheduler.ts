@@ -0,0 +1,79 @@
+import { logger } from '../utils/logger';
+import { nextRun } from '../utils/cron';
+import { SubscriptionService } from './SubscriptionService';
+
+/**
+ * 订阅调度器：每分钟检查一次，按各公众号的cron计划抓取新文章
+ * 进程停机期间错过的计划会在启动后的第一次检查时补上；抓取失败的账户等到下一个计划时间再重试
+ */
+export class SubscriptionScheduler {
+  private readonly checkInterval = 60000;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<void>;
+  private readonly failedAt = new Map<string, Date>();
+
+  constructor(private readonly subscriptions = new SubscriptionService()) {}
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+    logger.info('订阅调度器已启动');
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.current;
+    logger.info('订阅调度器已停止');
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.current = this.runDue().finally(() => {
+        this.current = undefined;
+        if (this.running) {
+          this.schedule(this.checkInterval);
+        }
+      });
+    }, delay);
+  }
+
+  private async runDue(): Promise<void> {
+    try {
+      const now = new Date();
+      const accounts = await this.subscriptions.listDueAccounts(now);
+      for (const account of accounts) {
+        if (!this.running) {
+          break;
+        }
+
+        const failedAt = this.failedAt.get(account.id);
+        const retryAt = failedAt && nextRun(account.schedule!, failedAt);
+        if (retryAt && retryAt > now) {
+          continue;
+        }
+
+        try {
+          await this.subscriptions.fetchAccount(account);
+          this.failedAt.delete(account.id);
+        } catch (error) {
+          this.failedAt.set(account.id, now);
+          logger.error(`定时抓取公众号 ${account.name} 失败:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('订阅调度器出错:', error);
+    }
+  }
+}
+
+export const subscriptionScheduler = new SubscriptionScheduler();
@@ -0,0 +1,210 @@
+import { WeChatAccount } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { nextRun, validateCron } from '../utils/cron';
+import { collectArticleUrls } from '../utils/articleUrl';
+import { BatchJobService, IN_FLIGHT_ITEM_STATUSES } from './BatchJobService';
+import { batchJobWorker } from './BatchJobWorker';
+import { TaskLogService } from './TaskLogService';
+import { ArticleSources, createArticleSources, SOURCE_TYPES, SourceType } from './sources';
+
+export class SubscriptionError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+export interface SubscriptionSettings {
+  sourceType?: string | null;
+  source?: string | null;
+  schedule?: string | null;
+}
+
+export interface FetchResult {
+  accountId: string;
+  accountName: string;
+  discovered: number; // 来源中发布于起始时间之后的文章数
+  queued: number; // 去掉已保存和已在队列中的文章后，实际加入批量任务的数量
+  jobId?: string;
+}
+
+/**
+ * 公众号订阅：从账户配置的来源发现新文章，并作为后台批量任务抓取和总结
+ */
+export class SubscriptionService {
+  // 首次抓取（没有 lastFetched）时向前追溯的天数
+  private readonly initialDays = parseInt(process.env.SUBSCRIPTION_INITIAL_DAYS || '1');
+
+  constructor(
+    private readonly sources: ArticleSources = createArticleSources(),
+    private readonly jobService = new BatchJobService(),
+    private readonly taskLogs = new TaskLogService()
+  ) {}
+
+  /**
+   * 校验订阅配置，返回错误信息；只校验请求中出现的字段
+   */
+  validateSettings(settings: SubscriptionSettings, current?: SubscriptionSettings): string | null {
+    const sourceType = settings.sourceType !== undefined ? settings.sourceType : current?.sourceType;
+    const source = settings.source !== undefined ? settings.source : current?.source;
+
+    if (sourceType && !SOURCE_TYPES.includes(sourceType as SourceType)) {
+      return `不支持的订阅来源类型: ${sourceType}，可选 ${SOURCE_TYPES.join('、')}`;
+    }
+
+    if (sourceType && !source) {
+      return '请填写订阅来源';
+    }
+
+    if (sourceType && source) {
+      const sourceError = this.sources[sourceType as SourceType].validate(source);
+      if (sourceError) {
+        return sourceError;
+      }
+    }
+
+    if (settings.schedule) {
+      const cronError = validateCron(settings.schedule);
+      if (cronError) {
+        return `抓取计划无效: ${cronError}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 找出已到抓取时间的订阅：距上次抓取（或创建时间）之后的下一次计划时间已过
+   */
+  async listDueAccounts(now: Date = new Date()): Promise<WeChatAccount[]> {
+    const accounts = await prisma.weChatAccount.findMany({
+      where: {
+        isActive: true,
+        sourceType: { not: null },
+        source: { not: null },
+        schedule: { not: null }
+      }
+    });
+
+    return accounts.filter(account => {
+      try {
+        const next = nextRun(account.schedule!, account.lastFetched ?? account.createdAt);
+        return next !== null && next <= now;
+      } catch (error) {
+        logger.warn(`公众号 ${account.name} 的抓取计划无效: ${account.schedule}`);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * 抓取所有启用的订阅，不论计划时间；单个账户失败不影响其他账户
+   */
+  async fetchAll(): Promise<FetchResult[]> {
+    const accounts = await prisma.weChatAccount.findMany({
+      where: {
+        isActive: true,
+        sourceType: { not: null },
+        source: { not: null }
+      }
+    });
+
+    const results: FetchResult[] = [];
+    for (const account of accounts) {
+      try {
+        results.push(await this.fetchAccount(account));
+      } catch (error) {
+        logger.error(`抓取公众号 ${account.name} 失败:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 发现账户来源中发布于 since 之后的文章并加入批量任务
+   * 未指定 since 时从上次抓取时间开始
+   */
+  async fetchAccount(account: WeChatAccount, since?: Date): Promise<FetchResult> {
+    if (!account.sourceType || !account.source) {
+      throw new SubscriptionError(`公众号 ${account.name} 未配置订阅来源`);
+    }
+
+    const source = this.sources[account.sourceType as SourceType];
+    if (!source) {
+      throw new SubscriptionError(`不支持的订阅来源类型: ${account.sourceType}`);
+    }
+
+    const from = since
+      ?? account.lastFetched
+      ?? new Date(Date.now() - this.initialDays * 24 * 60 * 60 * 1000);
+
+    return this.taskLogs.track('fetch', account.name, async () => {
+      // 以开始发现的时间作为本次抓取时间，避免漏掉抓取过程中发布的文章
+      const fetchedAt = new Date();
+      const discovered = await source.discover(account.source!, from);
+      const urls = await this.filterNewUrls(discovered.map(article => article.url));
+
+      let jobId: string | undefined;
+      if (urls.length > 0) {
+        const job = await this.jobService.createJob(urls, { accountName: account.name });
+        batchJobWorker.wake();
+        jobId = job.id;
+      }
+
+      // 手动指定的起始时间晚于上次抓取时间时，中间的文章尚未抓取，不能推进 lastFetched
+      if (!account.lastFetched || from <= account.lastFetched) {
+        await prisma.weChatAccount.update({
+          where: { id: account.id },
+          data: { lastFetched: fetchedAt }
+        });
+      }
+
+      logger.info(`公众号 ${account.name} 发现 ${discovered.length} 篇文章，加入队列 ${urls.length} 篇`);
+      return {
+        accountId: account.id,
+        accountName: account.name,
+        discovered: discovered.length,
+        queued: urls.length,
+        jobId
+      };
+    }, result => ({
+      message: `发现 ${result.discovered} 篇文章，加入队列 ${result.queued} 篇`,
+      details: {
+        sourceType: account.sourceType,
+        since: from.toISOString(),
+        discovered: result.discovered,
+        queued: result.queued,
+        jobId: result.jobId
+      }
+    }));
+  }
+
+  /**
+   * 规范化并去重，排除已保存的文章和仍在批量任务队列中的链接
+   */
+  private async filterNewUrls(urls: string[]): Promise<string[]> {
+    const { urls: unique, invalid } = collectArticleUrls(urls);
+    if (invalid.length > 0) {
+      logger.warn(`跳过 ${invalid.length} 个无效文章链接:`, invalid);
+    }
+    if (unique.length === 0) {
+      return [];
+    }
+
+    const [saved, pending] = await Promise.all([
+      prisma.article.findMany({
+        where: { url: { in: unique } },
+        select: { url: true }
+      }),
+      prisma.batchJobItem.findMany({
+        where: { url: { in: unique }, status: { in: ['queued', ...IN_FLIGHT_ITEM_STATUSES] } },
+        select: { url: true }
+      })
+    ]);
+
+    const known = new Set([...saved, ...pending].map(item => item.url));
+    return unique.filter(url => !known.has(url));
+  }
+}
@@ -0,0 +1,403 @@
+import { logger } from '../utils/logger';
+import { chunkText, estimateTokens } from '../utils/textChunker';
+import {
+  ExtractedFields,
+  ExtractionField,
+  extractJsonObject,
+  FieldType,
+  Sentiment,
+  validateSummaryPayload
+} from '../utils/summarySchema';
+import { getCircuitBreaker, withRetry } from '../utils/resilience';
+import { findTemplateVariables, renderTemplate } from '../utils/promptTemplate';
+import { ChatMessage, CompletionOptions, getProvider, SummarizationProvider } from './providers';
+import { TaskLogService } from './TaskLogService';
+
+export interface SummaryResult {
+  content: string;
+  keyPoints: string[];
+  sentiment: Sentiment;
+  category: string;
+  fields?: ExtractedFields; // 按提取字段定义抽取的信息
+}
+
+export type SummaryCoverage = 'full' | 'truncated';
+
+// ok: 首次输出即通过校验；repaired: 经修复重试后通过；failed: 重试后仍不合格
+export type ParseStatus = 'ok' | 'repaired' | 'failed';
+
+export interface SummaryOutcome {
+  result: SummaryResult | null; // 解析失败时为null，不伪造总结内容
+  parseStatus: ParseStatus;
+  rawOutput?: string; // 解析失败时保留模型最后一次的原始输出
+  coverage: SummaryCoverage; // 是否基于全文生成
+  chunkCount: number; // 1 表示单次总结，大于1表示分块map-reduce
+  attempts: number; // 调用模型接口的总次数（含重试）
+}
+
+/**
+ * 总结失败时抛出，携带失败前调用模型接口的总次数
+ */
+export class SummarizationError extends Error {
+  constructor(message: string, readonly attempts: number) {
+    super(message);
+    this.name = 'SummarizationError';
+  }
+}
+
+/**
+ * 一组总结提示词，内置提示词或数据库中某个模板版本
+ */
+export interface SummaryPrompt {
+  version: string; // 写入缓存和Summary的版本标识，如 builtin-v2、weekly@v3
+  systemPrompt: string;
+  userPrompt: string;
+  templateId?: string; // 来自数据库模板时的版本ID
+}
+
+export interface PromptOptions {
+  prompt?: SummaryPrompt;
+  account?: string;
+  language?: string;
+  fields?: ExtractionField[]; // 需要额外提取的自定义字段
+}
+
+interface RenderedPrompt {
+  system: string;
+  user: string;
+  format: string; // 输出格式说明，修复重试时再次提供
+  fields: ExtractionField[];
+}
+
+interface CallStats {
+  attempts: number;
+}
+
+interface GeneratedSummary {
+  result: SummaryResult | null;
+  parseStatus: ParseStatus;
+  rawOutput?: string;
+}
+
+export const DEFAULT_LANGUAGE = '中文';
+
+const SUMMARY_FORMAT = `请按照以下JSON格式输出分析结果：
+{
+  "summary": "文章的简洁摘要（150字以内）",
+  "keyPoints": ["要点1", "要点2", "要点3"],
+  "sentiment": "positive/negative/neutral",
+  "category": "文章主要分类（如：科技、财经、生活、教育等）"
+}
+
+要求：
+1. 摘要要简洁明了，突出核心内容
+2. 提取3-5个关键要点
+3. 准确判断文章的情感倾向
+4. 给出合适的文章分类`;
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  string: '字符串',
+  number: '数字',
+  boolean: 'true 或 false',
+  date: '日期字符串，格式 YYYY-MM-DD',
+  'string[]': '字符串数组',
+  'number[]': '数字数组'
+};
+
+// 未选择模板时使用的内置提示词；修改提示词或输出格式时需要递增版本，旧版本的缓存将不再命中
+export const BUILTIN_PROMPT: SummaryPrompt = {
+  version: 'builtin-v2',
+  systemPrompt: '你是一个专业的文章分析助手，擅长提取文章要点、分析情感倾向和分类文章主题。请用{{language}}回复。',
+  userPrompt: `请分析以下微信公众号文章，并按照指定格式输出结果：
+
+文章标题：{{title}}
+
+文章内容：
+{{content}}
+
+{{format}}`
+};
+
+export class SummarizerService {
+  // 单次请求可容纳的正文token数，超过后分块总结
+  private readonly chunkTokens = parseInt(process.env.SUMMARY_CHUNK_TOKENS || '6000');
+  // 分块数量上限，超出部分不参与总结并标记为截断
+  private readonly maxChunks = parseInt(process.env.SUMMARY_MAX_CHUNKS || '12');
+  // 输出不合格时的修复重试次数
+  private readonly repairAttempts = parseInt(process.env.SUMMARY_REPAIR_ATTEMPTS || '2');
+  // 单次模型调用遇到限流、5xx或网络错误时的重试次数
+  private readonly maxRetries = parseInt(process.env.LLM_MAX_RETRIES || '3');
+
+  constructor(private readonly taskLogs = new TaskLogService()) {}
+
+  /**
+   * 总结单篇文章，并写入任务日志
+   */
+  async summarizeArticle(
+    title: string,
+    content: string,
+    provider: SummarizationProvider = getProvider(),
+    options: PromptOptions = {}
+  ): Promise<SummaryOutcome> {
+    return this.taskLogs.track(
+      'summarize',
+      title,
+      () => this.summarize(title, content, provider, options),
+      outcome => ({
+        status: outcome.parseStatus === 'failed' ? 'failed' : 'completed',
+        message: outcome.parseStatus === 'failed' ? '模型输出无法解析' : undefined,
+        details: {
+          provider: provider.name,
+          model: provider.model,
+          promptVersion: (options.prompt ?? BUILTIN_PROMPT).version,
+          parseStatus: outcome.parseStatus,
+          coverage: outcome.coverage,
+          chunkCount: outcome.chunkCount,
+          attempts: outcome.attempts
+        }
+      })
+    );
+  }
+
+  private async summarize(
+    title: string,
+    content: string,
+    provider: SummarizationProvider,
+    options: PromptOptions
+  ): Promise<SummaryOutcome> {
+    const stats: CallStats = { attempts: 0 };
+
+    try {
+      if (estimateTokens(content) <= this.chunkTokens) {
+        const generated = await this.generateSummary(provider, this.renderPrompt(title, content, options), stats);
+        return {
+          ...generated,
+          coverage: 'full',
+          chunkCount: 1,
+          attempts: stats.attempts
+        };
+      }
+
+      return await this.mapReduceSummarize(title, content, provider, options, stats);
+
+    } catch (error) {
+      logger.error(`Error calling ${provider.name} API:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SummarizationError(`Failed to summarize article: ${message}`, stats.attempts);
+    }
+  }
+
+  /**
+   * 长文分块总结：先逐块提炼要点（map），再将各块要点合并为最终总结（reduce）
+   */
+  private async mapReduceSummarize(
+    title: string,
+    content: string,
+    provider: SummarizationProvider,
+    options: PromptOptions,
+    stats: CallStats
+  ): Promise<SummaryOutcome> {
+    const allChunks = chunkText(content, this.chunkTokens);
+    const chunks = allChunks.slice(0, this.maxChunks);
+    const coverage: SummaryCoverage = chunks.length < allChunks.length ? 'truncated' : 'full';
+
+    logger.info(`文章过长，分 ${chunks.length} 块总结: ${title}` +
+      (coverage === 'truncated' ? `（共 ${allChunks.length} 块，超出部分已截断）` : ''));
+
+    // 分块提炼沿用模板的系统提示词，保证输出语言和口径一致
+    const { system } = this.renderPrompt(title, '', options);
+    const fields = options.fields ?? [];
+    const chunkNotes: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const notes = await this.complete(
+        provider,
+        { system, user: this.buildChunkPrompt(title, chunks[i], i + 1, chunks.length, fields) },
+        600,
+        stats
+      );
+      chunkNotes.push(notes.trim());
+    }
+
+    const generated = await this.generateSummary(
+      provider,
+      this.renderPrompt(title, this.buildReduceContent(chunkNotes), options),
+      stats
+    );
+    return {
+      ...generated,
+      coverage,
+      chunkCount: chunks.length,
+      attempts: stats.attempts
+    };
+  }
+
+  /**
+   * 生成并校验结构化总结
+   * 输出不符合要求时，把错误反馈给模型并以JSON模式重新请求，直到通过或用完重试次数
+   */
+  private async generateSummary(
+    provider: SummarizationProvider,
+    prompt: RenderedPrompt,
+    stats: CallStats
+  ): Promise<GeneratedSummary> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user }
+    ];
+
+    let output = await this.callProvider(provider, messages, { maxTokens: 1000, temperature: 0.3 }, stats);
+
+    for (let attempt = 0; ; attempt++) {
+      const validation = validateSummaryPayload(extractJsonObject(output), prompt.fields);
+
+      if (validation.valid) {
+        return {
+          result: {
+            content: validation.value.summary,
+            keyPoints: validation.value.keyPoints,
+            sentiment: validation.value.sentiment,
+            category: validation.value.category,
+            ...(validation.value.fields && { fields: validation.value.fields })
+          },
+          parseStatus: attempt === 0 ? 'ok' : 'repaired'
+        };
+      }
+
+      if (attempt >= this.repairAttempts) {
+        logger.warn(`${provider.name} 输出在 ${attempt} 次修复后仍不合格: ${validation.errors.join('；')}`);
+        return { result: null, parseStatus: 'failed', rawOutput: output };
+      }
+
+      logger.warn(`${provider.name} 输出不合格，第 ${attempt + 1} 次修复: ${validation.errors.join('；')}`);
+      messages.push(
+        { role: 'assistant', content: output },
+        { role: 'user', content: this.buildRepairPrompt(validation.errors, prompt.format) }
+      );
+      output = await this.callProvider(provider, messages, { maxTokens: 1000, temperature: 0, jsonMode: true }, stats);
+    }
+  }
+
+  private complete(
+    provider: SummarizationProvider,
+    prompt: Pick<RenderedPrompt, 'system' | 'user'>,
+    maxTokens: number,
+    stats: CallStats
+  ): Promise<string> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user }
+    ];
+
+    return this.callProvider(provider, messages, { maxTokens, temperature: 0.3 }, stats);
+  }
+
+  /**
+   * 经熔断器和重试调用模型接口，并累计调用次数
+   * 每次实际发出请求时计数，无论最终以何种错误结束；熔断拒绝时未发出请求，不计数
+   */
+  private async callProvider(
+    provider: SummarizationProvider,
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    stats: CallStats
+  ): Promise<string> {
+    const { value } = await getCircuitBreaker(provider.name).execute(() =>
+      withRetry(() => {
+        stats.attempts++;
+        return provider.complete(messages, options);
+      }, {
+        label: `${provider.name} API`,
+        retries: this.maxRetries
+      })
+    );
+    return value;
+  }
+
+  /**
+   * 用文章信息渲染提示词模板
+   * 模板未引用 {{format}} 时在末尾追加输出格式说明，保证输出仍可校验
+   */
+  private renderPrompt(title: string, content: string, options: PromptOptions): RenderedPrompt {
+    const prompt = options.prompt ?? BUILTIN_PROMPT;
+    const fields = options.fields ?? [];
+    const format = this.buildFormat(fields);
+    const variables = {
+      title,
+      content,
+      account: options.account ?? '',
+      language: options.language || DEFAULT_LANGUAGE,
+      format
+    };
+
+    let user = renderTemplate(prompt.userPrompt, variables);
+    if (!findTemplateVariables(prompt.userPrompt).includes('format')) {
+      user += `\n\n${format}`;
+    }
+
+    return {
+      system: renderTemplate(prompt.systemPrompt, variables),
+      user,
+      format,
+      fields
+    };
+  }
+
+  /**
+   * 输出格式说明；定义了提取字段时在JSON中增加 fields 对象
+   */
+  private buildFormat(fields: ExtractionField[]): string {
+    if (fields.length === 0) {
+      return SUMMARY_FORMAT;
+    }
+
+    const fieldLines = fields
+      .map(field => `   - ${field.name}（${FIELD_TYPE_LABELS[field.type]}` +
+        `${field.required ? '，必填' : '，文中未提及时填 null'}）：${field.description}`)
+      .join('\n');
+
+    return `${SUMMARY_FORMAT}
+5. 在JSON中增加 "fields" 对象，按以下说明从文章中提取信息，键名保持不变：
+${fieldLines}`;
+  }
+
+  private buildChunkPrompt(
+    title: string,
+    chunk: string,
+    index: number,
+    total: number,
+    fields: ExtractionField[] = []
+  ): string {
+    // 最终提取字段时只能看到各块要点，因此提炼时需保留相关信息
+    const fieldHint = fields.length > 0
+      ? `\n如果这一部分涉及以下信息，请一并列出：${fields.map(field => field.description).join('；')}。`
+      : '';
+
+    return `以下是微信公众号文章《${title}》的第 ${index}/${total} 部分。
+请提炼这一部分的核心内容，列出其中的关键事实、观点和数据，每条一行，不超过8条。${fieldHint}
+不要输出与这一部分无关的推测，也不需要输出JSON。
+
+${chunk}`;
+  }
+
+  /**
+   * 长文的各块要点作为模板中的正文，由模板完成最终总结
+   */
+  private buildReduceContent(chunkNotes: string[]): string {
+    const notes = chunkNotes
+      .map((note, i) => `【第 ${i + 1} 部分要点】\n${note}`)
+      .join('\n\n');
+
+    return `（文章较长，以下是按顺序分段提炼的要点，请综合所有部分对整篇文章进行分析）
+
+${notes}`;
+  }
+
+  private buildRepairPrompt(errors: string[], format: string): string {
+    return `你上一次的输出不符合要求，存在以下问题：
+${errors.map((error, i) => `${i + 1}. ${error}`).join('\n')}
+
+请修正后重新输出。只输出一个JSON对象，不要包含任何解释或代码块标记。
+
+${format}`;
+  }
+}
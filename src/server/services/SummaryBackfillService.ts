@@ -0,0 +1,103 @@
+import { Article, WeChatAccount } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { ArticleProcessingService } from './ArticleProcessingService';
+import { TaskLogService } from './TaskLogService';
+
+/**
+ * 为已保存但没有总结或总结解析失败的文章补做总结，直接使用库中的正文，不重新抓取
+ * 同一时间只运行一轮
+ */
+export class SummaryBackfillService {
+  private readonly itemDelay = 1000; // 文章之间的延迟，避免API限制
+  private running = false;
+
+  constructor(
+    private readonly processor = new ArticleProcessingService(),
+    private readonly taskLogs = new TaskLogService()
+  ) {}
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 在后台开始一轮补总结，返回本轮要处理的文章数
+   */
+  async start(limit: number): Promise<number> {
+    if (this.running) {
+      throw new Error('补总结任务正在运行');
+    }
+
+    // 查询前就占用，避免并发触发的两次调用都通过检查、重复总结同一批文章
+    this.running = true;
+    let started = false;
+    try {
+      const articles = await prisma.article.findMany({
+        // 解析失败的总结也会保存（正文为空），同样需要重做
+        where: { OR: [{ summary: null }, { summary: { parseStatus: 'failed' } }] },
+        include: { account: true },
+        orderBy: { createdAt: 'asc' },
+        take: limit
+      });
+
+      if (articles.length === 0) {
+        return 0;
+      }
+
+      this.run(articles);
+      started = true;
+      return articles.length;
+    } finally {
+      // 查询失败或没有待总结的文章时立即释放，否则由后台任务结束时释放
+      if (!started) {
+        this.running = false;
+      }
+    }
+  }
+
+  private run(articles: Array<Article & { account: WeChatAccount }>): void {
+    const startTime = new Date();
+
+    void (async () => {
+      let successCount = 0;
+      let failCount = 0;
+
+      try {
+        for (const article of articles) {
+          const { result } = await this.processor.summarizeAndSave(
+            {
+              url: article.url,
+              title: article.title,
+              content: article.content,
+              markdown: article.markdown ?? undefined,
+              author: article.author ?? undefined,
+              publishDate: article.publishDate
+            },
+            { accountName: article.account.name }
+          );
+
+          if (result.error) {
+            failCount++;
+          } else {
+            successCount++;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, this.itemDelay));
+        }
+      } catch (error) {
+        logger.error('补总结任务出错:', error);
+      } finally {
+        this.running = false;
+        logger.info(`补总结完成，成功: ${successCount}，失败: ${failCount}`);
+        await this.taskLogs.record('trigger_summarize', undefined, startTime, {
+          status: successCount + failCount < articles.length ? 'failed' : 'completed',
+          message: `补总结完成，成功: ${successCount}，失败: ${failCount}`,
+          details: { total: articles.length, successCount, failCount }
+        });
+      }
+    })();
+  }
+}
+
+export const summaryBackfill = new SummaryBackfillService();
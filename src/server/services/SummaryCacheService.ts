@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { SummaryCache } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { ExtractedFields, Sentiment } from '../utils/summarySchema';
+import { ParseStatus, SummaryCoverage, SummaryOutcome } from './SummarizerService';
+
+export interface SummaryCacheKey {
+  contentHash: string; // 填入提示词的标题、公众号和正文的哈希，见 computeInputHash
+  promptVersion: string;
+  language: string;
+  provider: string;
+  model: string;
+  fieldsHash?: string; // 提取字段定义的哈希，未定义字段时省略
+}
+
+/**
+ * 计算填入提示词的文章变量的哈希，不做归一化：Markdown中的空白和大小写也会影响模型输出
+ * 模板会引用 {{title}} 和 {{account}}，正文相同而标题或公众号不同时提示词也不同
+ */
+export function computeInputHash(input: { title: string; account: string; content: string }): string {
+  return createHash('sha256')
+    .update(JSON.stringify([input.title, input.account, input.content]))
+    .digest('hex');
+}
+
+/**
+ * 计算文章正文的归一化哈希
+ * 忽略全半角、大小写与空白差异，同一篇文章换了URL形式也能命中
+ */
+export function computeContentHash(content: string): string {
+  const normalized = content
+    .normalize('NFKC')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * 总结结果缓存：以内容哈希 + 提示词版本 + 输出语言 + 模型为键，避免重复调用模型
+ */
+export class SummaryCacheService {
+  async get(key: SummaryCacheKey): Promise<SummaryOutcome | null> {
+    const entry = await prisma.summaryCache.findUnique({
+      where: { cacheKey: this.buildCacheKey(key) }
+    });
+
+    if (!entry) {
+      return null;
+    }
+
+    await prisma.summaryCache.update({
+      where: { id: entry.id },
+      data: {
+        hitCount: { increment: 1 },
+        lastHitAt: new Date()
+      }
+    });
+
+    return this.toOutcome(entry);
+  }
+
+  /**
+   * 写入缓存；解析失败的结果不缓存，下次仍会重新请求模型
+   */
+  async set(key: SummaryCacheKey, outcome: SummaryOutcome): Promise<void> {
+    if (!outcome.result || outcome.parseStatus === 'failed') {
+      return;
+    }
+
+    const data = {
+      content: outcome.result.content,
+      keyPoints: JSON.stringify(outcome.result.keyPoints),
+      sentiment: outcome.result.sentiment,
+      category: outcome.result.category,
+      coverage: outcome.coverage,
+      chunkCount: outcome.chunkCount,
+      parseStatus: outcome.parseStatus,
+      extractedFields: outcome.result.fields ? JSON.stringify(outcome.result.fields) : null
+    };
+
+    const cacheKey = this.buildCacheKey(key);
+    await prisma.summaryCache.upsert({
+      where: { cacheKey },
+      update: data,
+      create: {
+        cacheKey,
+        ...key,
+        ...data
+      }
+    });
+  }
+
+  /**
+   * 按提示词版本清除缓存，未指定版本时清除全部
+   */
+  async invalidate(promptVersion?: string): Promise<number> {
+    const { count } = await prisma.summaryCache.deleteMany({
+      where: promptVersion ? { promptVersion } : {}
+    });
+
+    logger.info(`清除总结缓存 ${count} 条` + (promptVersion ? `（提示词版本: ${promptVersion}）` : ''));
+    return count;
+  }
+
+  async stats(): Promise<Array<{ promptVersion: string; entries: number; hits: number }>> {
+    const groups = await prisma.summaryCache.groupBy({
+      by: ['promptVersion'],
+      _count: { _all: true },
+      _sum: { hitCount: true }
+    });
+
+    return groups.map(group => ({
+      promptVersion: group.promptVersion,
+      entries: group._count._all,
+      hits: group._sum.hitCount ?? 0
+    }));
+  }
+
+  private buildCacheKey(key: SummaryCacheKey): string {
+    return createHash('sha256')
+      .update([key.contentHash, key.promptVersion, key.language, key.provider, key.model, key.fieldsHash ?? ''].join('\n'))
+      .digest('hex');
+  }
+
+  private toOutcome(entry: SummaryCache): SummaryOutcome {
+    return {
+      result: {
+        content: entry.content,
+        keyPoints: JSON.parse(entry.keyPoints),
+        sentiment: entry.sentiment as Sentiment,
+        category: entry.category ?? '',
+        ...(entry.extractedFields && { fields: JSON.parse(entry.extractedFields) as ExtractedFields })
+      },
+      parseStatus: entry.parseStatus as ParseStatus,
+      coverage: entry.coverage as SummaryCoverage,
+      chunkCount: entry.chunkCount,
+      attempts: 0
+    };
+  }
+}
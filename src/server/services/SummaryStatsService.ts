@@ -0,0 +1,143 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { formatDate } from '../utils/dates';
+import { SENTIMENTS } from '../utils/summarySchema';
+
+export type StatsBucket = 'day' | 'week';
+
+export interface StatsQuery {
+  from: Date;
+  to: Date;
+  bucket: StatsBucket;
+  accountId?: string;
+}
+
+export interface StatsSeriesPoint {
+  bucket: string; // 该时间段的起始日期 YYYY-MM-DD，按周统计时为周一
+  total: number;
+  sentiment: Record<string, number>;
+  categories: Record<string, number>;
+}
+
+export interface SummaryStats {
+  total: number;
+  recent: number; // 最近7天（截至 to）生成的总结数
+  sentiment: Record<string, number>;
+  categories: Array<{ category: string; count: number }>;
+  series: StatsSeriesPoint[];
+  range: {
+    from: string;
+    to: string;
+    bucket: StatsBucket;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_DAYS = 7;
+
+// 防止过长的时间范围生成过多空桶
+export const MAX_BUCKETS = 366;
+
+/**
+ * 日期所在时间段的起始时刻（本地时间），按周统计时以周一为起点
+ */
+export function bucketStart(date: Date, bucket: StatsBucket): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (bucket === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+function nextBucket(date: Date, bucket: StatsBucket): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + (bucket === 'week' ? 7 : 1));
+  return next;
+}
+
+export function countBuckets(from: Date, to: Date, bucket: StatsBucket): number {
+  const span = bucketStart(to, bucket).getTime() - bucketStart(from, bucket).getTime();
+  return Math.floor(span / (bucket === 'week' ? 7 * DAY_MS : DAY_MS)) + 1;
+}
+
+function emptySentiment(): Record<string, number> {
+  return Object.fromEntries(SENTIMENTS.map(sentiment => [sentiment, 0]));
+}
+
+/**
+ * 总结统计：按生成时间筛选，统计情感、分类分布及按天/周的趋势
+ */
+export class SummaryStatsService {
+  async getStats(query: StatsQuery): Promise<SummaryStats> {
+    const accountFilter: Prisma.SummaryWhereInput = query.accountId
+      ? { article: { accountId: query.accountId } }
+      : {};
+    const where: Prisma.SummaryWhereInput = {
+      ...accountFilter,
+      createdAt: { gte: query.from, lte: query.to }
+    };
+
+    const [summaries, recent] = await Promise.all([
+      prisma.summary.findMany({
+        where,
+        select: { createdAt: true, sentiment: true, category: true }
+      }),
+      prisma.summary.count({
+        where: {
+          ...accountFilter,
+          createdAt: {
+            gte: new Date(Math.max(query.from.getTime(), query.to.getTime() - RECENT_DAYS * DAY_MS)),
+            lte: query.to
+          }
+        }
+      })
+    ]);
+
+    // 先生成完整的时间段，没有数据的时间段也返回0，便于前端绘图
+    const series = new Map<string, StatsSeriesPoint>();
+    const end = bucketStart(query.to, query.bucket);
+    for (let cursor = bucketStart(query.from, query.bucket); cursor <= end; cursor = nextBucket(cursor, query.bucket)) {
+      const key = formatDate(cursor);
+      series.set(key, { bucket: key, total: 0, sentiment: emptySentiment(), categories: {} });
+    }
+
+    const sentiment = emptySentiment();
+    const categories = new Map<string, number>();
+
+    for (const summary of summaries) {
+      const point = series.get(formatDate(bucketStart(summary.createdAt, query.bucket)));
+      if (point) {
+        point.total++;
+      }
+
+      // 解析失败的总结没有情感和分类，只计入总数
+      if (summary.sentiment) {
+        sentiment[summary.sentiment] = (sentiment[summary.sentiment] ?? 0) + 1;
+        if (point) {
+          point.sentiment[summary.sentiment] = (point.sentiment[summary.sentiment] ?? 0) + 1;
+        }
+      }
+      if (summary.category) {
+        categories.set(summary.category, (categories.get(summary.category) ?? 0) + 1);
+        if (point) {
+          point.categories[summary.category] = (point.categories[summary.category] ?? 0) + 1;
+        }
+      }
+    }
+
+    return {
+      total: summaries.length,
+      recent,
+      sentiment,
+      categories: [...categories.entries()]
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count),
+      series: [...series.values()],
+      range: {
+        from: query.from.toISOString(),
+        to: query.to.toISOString(),
+        bucket: query.bucket
+      }
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { Prisma, TaskLog } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+export const TASK_TYPES = ['fetch', 'extract', 'summarize', 'batch', 'trigger_summarize', 'digest'] as const;
+export type TaskType = typeof TASK_TYPES[number];
+
+export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface TaskOutcome {
+  status?: Extract<TaskStatus, 'completed' | 'failed'>; // 默认 completed
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface TaskLogQuery {
+  taskType?: string;
+  status?: string;
+  skip: number;
+  take: number;
+}
+
+export interface TaskStats {
+  total: number;
+  recent: number; // 最近24小时
+  byType: Record<string, number>;
+  byStatus: Record<string, number>;
+  averageDuration: Record<string, number>; // 按类型统计已结束任务的平均耗时（毫秒）
+}
+
+/**
+ * 任务日志：记录订阅抓取、文章提取、总结和批量处理每一步的状态与耗时
+ * 写日志失败只记录警告，不影响任务本身
+ */
+export class TaskLogService {
+  /**
+   * 执行任务并记录开始、结束状态和耗时
+   * 函数抛出异常时记为失败并继续抛出；describe 可根据返回值标记失败（如返回了错误结果而非抛出）
+   */
+  async track<T>(
+    taskType: TaskType,
+    target: string | undefined,
+    fn: () => Promise<T>,
+    describe?: (result: T) => TaskOutcome
+  ): Promise<T> {
+    const log = await this.start(taskType, target);
+
+    try {
+      const result = await fn();
+      await this.finish(log, describe?.(result) ?? {});
+      return result;
+    } catch (error) {
+      await this.finish(log, {
+        status: 'failed',
+        message: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 直接写入一条已结束的任务记录，用于开始和结束不在同一调用中的任务
+   */
+  async record(
+    taskType: TaskType,
+    target: string | undefined,
+    startTime: Date,
+    outcome: TaskOutcome,
+    endTime: Date = new Date()
+  ): Promise<void> {
+    try {
+      await prisma.taskLog.create({
+        data: {
+          taskType,
+          target,
+          status: outcome.status ?? 'completed',
+          message: outcome.message,
+          details: outcome.details ? JSON.stringify(outcome.details) : null,
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime()
+        }
+      });
+    } catch (error) {
+      logger.warn(`写入任务日志失败 (${taskType}):`, error);
+    }
+  }
+
+  async listLogs(query: TaskLogQuery): Promise<{ logs: TaskLog[]; total: number }> {
+    const where: Prisma.TaskLogWhereInput = {
+      ...(query.taskType && { taskType: query.taskType }),
+      ...(query.status && { status: query.status })
+    };
+
+    const [logs, total] = await Promise.all([
+      prisma.taskLog.findMany({
+        where,
+        orderBy: { startTime: 'desc' },
+        skip: query.skip,
+        take: query.take
+      }),
+      prisma.taskLog.count({ where })
+    ]);
+
+    return { logs, total };
+  }
+
+  async stats(): Promise<TaskStats> {
+    const [total, recent, byType, byStatus, durations] = await Promise.all([
+      prisma.taskLog.count(),
+      prisma.taskLog.count({
+        where: { startTime: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } }
+      }),
+      prisma.taskLog.groupBy({ by: ['taskType'], _count: { _all: true } }),
+      prisma.taskLog.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.taskLog.groupBy({
+        by: ['taskType'],
+        where: { duration: { not: null } },
+        _avg: { duration: true }
+      })
+    ]);
+
+    return {
+      total,
+      recent,
+      byType: Object.fromEntries(byType.map(group => [group.taskType, group._count._all])),
+      byStatus: Object.fromEntries(byStatus.map(group => [group.status, group._count._all])),
+      averageDuration: Object.fromEntries(
+        durations.map(group => [group.taskType, Math.round(group._avg.duration ?? 0)])
+      )
+    };
+  }
+
+  private async start(taskType: TaskType, target?: string): Promise<TaskLog | null> {
+    try {
+      return await prisma.taskLog.create({
+        data: { taskType, target, status: 'running' }
+      });
+    } catch (error) {
+      logger.warn(`写入任务日志失败 (${taskType}):`, error);
+      return null;
+    }
+  }
+
+  private async finish(log: TaskLog | null, outcome: TaskOutcome): Promise<void> {
+    if (!log) {
+      return;
+    }
+
+    const endTime = new Date();
+    try {
+      await prisma.taskLog.update({
+        where: { id: log.id },
+        data: {
+          status: outcome.status ?? 'completed',
+          message: outcome.message,
+          details: outcome.details ? JSON.stringify(outcome.details) : null,
+          endTime,
+          duration: endTime.getTime() - log.startTime.getTime()
+        }
+      });
+    } catch (error) {
+      logger.warn(`更新任务日志失败 (${log.taskType}):`, error);
+    }
+  }
+}
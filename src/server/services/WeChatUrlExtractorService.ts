@@ -1,32 +1,81 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { logger } from '../utils/logger';
+import { RetryExhaustedError } from '../utils/resilience';
+import { collectArticleUrls } from '../utils/articleUrl';
+import { extractHtmlFromMhtml } from '../utils/mhtml';
+import { ExtractedAsset } from '../utils/articleAssets';
+import { classifyExtractionError, ExtractionError, ExtractionErrorCode } from '../utils/extractionErrors';
+import { ArticleMetadata, getAdapterForDocument, getAdapterForUrl, SourceAdapter } from './adapters';
+import { TaskLogService } from './TaskLogService';
+import { BrowserPool, browserPool } from './BrowserPool';
+import { computeContentHash } from './SummaryCacheService';
+
+// http: 直接请求页面；browser: 在无头浏览器中渲染后提取
+export type ExtractionStrategy = 'http' | 'browser';
+
+// fetch: 按链接抓取；html、mhtml: 上传的已保存页面；text: 粘贴的正文
+export const INGEST_SOURCES = ['fetch', 'html', 'mhtml', 'text'] as const;
+export type IngestSource = typeof INGEST_SOURCES[number];
+
+/**
+ * 无需抓取的文章来源：已保存的页面文件或粘贴的正文
+ */
+export interface IngestInput {
+  type: Exclude<IngestSource, 'fetch'>;
+  content: string; // html、text 为原文，mhtml 为文件内容的base64
+  filename?: string;
+  title?: string; // 仅 text，缺省时使用第一行
+  url?: string; // 文章原链接，缺省时从页面中读取，仍没有时按内容生成
+}
 
 export interface ExtractedWeChatArticle {
   url: string;
   title: string;
-  content: string;
+  content: string; // 纯文本正文
+  markdown?: string; // 保留结构的Markdown正文，总结时优先使用
+  coverUrl?: string;
+  assets?: ExtractedAsset[]; // 正文中的图片、视频、音频和小程序卡片，按出现顺序
   author?: string;
   publishDate?: Date;
+  metadata?: ArticleMetadata; // 发布时间、公众号或站点身份、版权等页面信息
+  adapter?: string; // 提取所用的来源适配器，粘贴的正文没有
+  attempts?: number; // 抓取页面的请求次数（含重试和浏览器渲染）
+  strategy?: ExtractionStrategy; // 成功提取所用的方式
+  ingestSource?: IngestSource; // 文章来源，补总结等场景不传
   error?: string;
+  errorCode?: ExtractionErrorCode; // 失败类型，见 utils/extractionErrors
+  retryable?: boolean; // 稍后重试是否可能成功
 }
 
+// 直接请求失败后，只有这些情况值得用浏览器再试；删除、违规等提示页换方式也打不开
+const BROWSER_RETRY_CODES = new Set<ExtractionErrorCode>(['NETWORK', 'PARSE']);
+
+/**
+ * 文章提取：按链接选择来源适配器（见 services/adapters）请求并解析页面
+ * 统一负责浏览器渲染兜底、批量节流、验证暂停和任务日志
+ */
 export class WeChatUrlExtractorService {
-  private readonly timeout = 20000; // 20秒超时，微信文章加载较慢
-  private readonly maxContentLength = 15000; // 微信文章通常较长
+  private readonly browserFallback = process.env.BROWSER_FALLBACK === 'true';
+
+  constructor(
+    private readonly taskLogs = new TaskLogService(),
+    private readonly browser: BrowserPool = browserPool
+  ) {}
 
   /**
    * 批量提取微信文章内容
    */
   async extractBatchWeChatArticles(urls: string[]): Promise<ExtractedWeChatArticle[]> {
-    logger.info(`开始批量提取 ${urls.length} 个微信文章`);
+    logger.info(`开始批量提取 ${urls.length} 篇文章`);
     
-    // 验证所有URL都是微信文章
-    const validUrls = urls.filter(url => this.isWeChatArticleUrl(url));
-    const invalidUrls = urls.filter(url => !this.isWeChatArticleUrl(url));
+    // 规范化并去重，同一篇文章只提取一次
+    const { urls: validUrls, duplicates, invalid: invalidUrls } = collectArticleUrls(urls);
     
     if (invalidUrls.length > 0) {
-      logger.warn(`发现 ${invalidUrls.length} 个非微信文章URL:`, invalidUrls);
+      logger.warn(`发现 ${invalidUrls.length} 个无效文章URL:`, invalidUrls);
+    }
+    if (duplicates > 0) {
+      logger.info(`跳过 ${duplicates} 个重复链接`);
     }
     
     const results: ExtractedWeChatArticle[] = [];
@@ -37,13 +86,14 @@ export class WeChatUrlExtractorService {
         url,
         title: '无效链接',
         content: '',
-        error: '不是有效的微信文章链接'
+        error: '不是有效的文章链接'
       });
     });
     
     // 并发处理有效URL，限制并发数量避免被微信限制
     const concurrencyLimit = 2; // 微信限制较严，减少并发数
-    for (let i = 0; i < validUrls.length; i += concurrencyLimit) {
+    let i = 0;
+    for (; i < validUrls.length; i += concurrencyLimit) {
       const batch = validUrls.slice(i, i + concurrencyLimit);
       const batchPromises = batch.map(url => this.extractSingleWeChatArticle(url));
       const batchResults = await Promise.allSettled(batchPromises);
@@ -60,12 +110,33 @@ export class WeChatUrlExtractorService {
           });
         }
       });
+
+      // 触发微信验证后继续请求只会延长封禁，剩余链接不再处理
+      if (results.some(result => result.errorCode === 'CAPTCHA')) {
+        i += concurrencyLimit;
+        break;
+      }
       
       // 批次间添加较长延迟，避免被微信反爬虫机制限制
       if (i + concurrencyLimit < validUrls.length) {
         await this.delay(3000); // 3秒延迟
       }
     }
+
+    const skipped = validUrls.slice(i);
+    if (skipped.length > 0) {
+      logger.warn(`触发微信验证，暂停剩余 ${skipped.length} 个链接`);
+      skipped.forEach(url => {
+        results.push({
+          url,
+          title: '未处理',
+          content: '',
+          error: '因微信验证暂停，未处理',
+          errorCode: 'CAPTCHA',
+          retryable: true
+        });
+      });
+    }
     
     const successCount = results.filter(r => !r.error).length;
     const failCount = results.filter(r => r.error).length;
@@ -75,234 +146,179 @@ export class WeChatUrlExtractorService {
   }
 
   /**
-   * 提取单个微信文章内容
+   * 提取单篇文章内容，并写入任务日志
    */
-  async extractSingleWeChatArticle(url: string): Promise<ExtractedWeChatArticle> {
+  async extractSingleWeChatArticle(input: string): Promise<ExtractedWeChatArticle> {
+    const adapter = getAdapterForUrl(input);
+    // 去掉跟踪参数，同一篇文章无论从哪里转发都保存为同一个链接
+    const url = adapter.canonicalize(input);
+    return this.taskLogs.track('extract', url, () => this.fetchArticle(adapter, url), article => ({
+      status: article.error ? 'failed' : 'completed',
+      message: article.error || article.title,
+      details: {
+        adapter: adapter.id,
+        attempts: article.attempts,
+        strategy: article.strategy,
+        errorCode: article.errorCode,
+        contentLength: article.content.length
+      }
+    }));
+  }
+
+  /**
+   * 从上传的页面文件或粘贴的正文中提取文章，不请求网络，并写入任务日志
+   */
+  async ingestDocument(input: IngestInput): Promise<ExtractedWeChatArticle> {
+    const target = input.url || input.filename || input.title || `上传的${input.type}`;
+    return this.taskLogs.track('extract', target, async () => this.parseDocument(input), article => ({
+      status: article.error ? 'failed' : 'completed',
+      message: article.error || article.title,
+      details: {
+        ingestSource: input.type,
+        adapter: article.adapter,
+        errorCode: article.errorCode,
+        contentLength: article.content.length
+      }
+    }));
+  }
+
+  private parseDocument(input: IngestInput): ExtractedWeChatArticle {
     try {
-      logger.info(`提取微信文章: ${url}`);
-      
-      // 发送HTTP请求，模拟真实浏览器
-      const response = await axios.get(url, {
-        timeout: this.timeout,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-          'Referer': 'https://mp.weixin.qq.com/',
-          'Sec-Fetch-Dest': 'document',
-          'Sec-Fetch-Mode': 'navigate',
-          'Sec-Fetch-Site': 'same-origin'
-        },
-        maxRedirects: 5
-      });
+      if (input.type === 'text') {
+        return { ...this.parseText(input), ingestSource: 'text' };
+      }
 
-      // 解析微信文章HTML
-      const $ = cheerio.load(response.data);
-      
-      // 提取标题
-      const title = this.extractTitle($);
-      
-      // 提取作者
-      const author = this.extractAuthor($);
-      
-      // 提取发布时间
-      const publishDate = this.extractPublishDate($);
-      
-      // 提取正文内容
-      const content = this.extractContent($);
-      
-      if (!content || content.length < 50) {
-        throw new Error('文章内容提取失败或内容过短');
+      // MHTML 按原始字节读入，各部分按自己声明的编码解码
+      const page = input.type === 'mhtml'
+        ? extractHtmlFromMhtml(Buffer.from(input.content, 'base64').toString('latin1'))
+        : { html: input.content, url: undefined };
+      if (!page) {
+        throw new ExtractionError('PARSE', '无法识别的 MHTML 文件，未找到页面HTML');
       }
 
-      return {
-        url,
-        title: title || '无标题',
-        content: this.cleanContent(content),
-        author,
-        publishDate
-      };
+      const sourceUrl = input.url || page.url || this.savedPageUrl(page.html);
+      const article = this.parseArticle(getAdapterForDocument(page.html, sourceUrl), '', page.html, sourceUrl);
+      const url = this.documentUrl(sourceUrl, article.content);
+      return { ...article, url, ingestSource: input.type };
 
     } catch (error) {
-      logger.error(`提取微信文章失败 ${url}:`, error);
-      return {
-        url,
-        title: '提取失败',
-        content: '',
-        error: error instanceof Error ? error.message : '未知错误'
-      };
+      logger.error(`解析上传的文章失败 ${input.filename || input.url || ''}:`, error);
+      return { ...this.failedResult(input.url || input.filename || '', error, 0), ingestSource: input.type };
     }
   }
 
-  /**
-   * 验证是否为微信文章URL
-   */
-  private isWeChatArticleUrl(url: string): boolean {
-    try {
-      const urlObj = new URL(url);
-      const isValid = urlObj.hostname === 'mp.weixin.qq.com' && 
-                     urlObj.pathname.startsWith('/s/');
-      
-      logger.info(`URL验证: ${url}`);
-      logger.info(`  - hostname: ${urlObj.hostname} (期望: mp.weixin.qq.com)`);
-      logger.info(`  - pathname: ${urlObj.pathname} (期望: /s/*)`);
-      logger.info(`  - 验证结果: ${isValid}`);
-      
-      return isValid;
-    } catch (error) {
-      logger.error(`URL解析失败: ${url}`, error);
-      return false;
+  private parseText(input: IngestInput): ExtractedWeChatArticle {
+    const content = input.content
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    if (content.length < 50) {
+      throw new ExtractionError('PARSE', '文章内容过短');
     }
+
+    return {
+      url: this.documentUrl(input.url, content),
+      title: input.title?.trim() || content.split('\n')[0].trim().slice(0, 60),
+      content
+    };
   }
 
   /**
-   * 提取文章标题
+   * 浏览器保存页面时记录的原地址：og:url 或 "saved from url" 注释
    */
-  private extractTitle($: cheerio.CheerioAPI): string {
-    // 微信文章标题的多种可能选择器
-    const titleSelectors = [
-      '#activity-name',
-      '.rich_media_title',
-      'h1.rich_media_title',
-      '.weui-article__title',
-      'h1'
-    ];
-
-    for (const selector of titleSelectors) {
-      const title = $(selector).first().text().trim();
-      if (title) {
-        return title;
-      }
-    }
-
-    return '';
+  private savedPageUrl(html: string): string | undefined {
+    const ogUrl = cheerio.load(html)('meta[property="og:url"]').attr('content');
+    return ogUrl || html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i)?.[1];
   }
 
   /**
-   * 提取作者信息
+   * 文章链接规范化；没有可用链接时按正文内容生成，同一篇文章重复上传只保存一份
    */
-  private extractAuthor($: cheerio.CheerioAPI): string {
-    const authorSelectors = [
-      '.rich_media_meta_text',
-      '.profile_nickname',
-      '#js_name',
-      '.weui-article__author'
-    ];
-
-    for (const selector of authorSelectors) {
-      const author = $(selector).first().text().trim();
-      if (author) {
-        return author;
-      }
+  private documentUrl(candidate: string | undefined, content: string): string {
+    const url = candidate?.trim();
+    if (url && /^https?:\/\//i.test(url)) {
+      return getAdapterForUrl(url).canonicalize(url);
     }
-
-    return '';
+    return `ingest://${computeContentHash(content).slice(0, 16)}`;
   }
 
   /**
-   * 提取发布时间
+   * 先直接请求页面；请求失败或正文无法解析时改用无头浏览器渲染
    */
-  private extractPublishDate($: cheerio.CheerioAPI): Date | undefined {
-    const dateSelectors = [
-      '#publish_time',
-      '.rich_media_meta_text',
-      '.weui-article__time'
-    ];
-
-    for (const selector of dateSelectors) {
-      const dateText = $(selector).first().text().trim();
-      if (dateText) {
-        const date = this.parseChineseDate(dateText);
-        if (date) {
-          return date;
-        }
-      }
+  private async fetchArticle(adapter: SourceAdapter, url: string): Promise<ExtractedWeChatArticle> {
+    const viaHttp = await this.fetchWithHttp(adapter, url);
+    if (!viaHttp.error || !this.browserFallback || !BROWSER_RETRY_CODES.has(viaHttp.errorCode!)) {
+      return viaHttp;
     }
 
-    return undefined;
+    logger.info(`直接请求未能提取文章（${viaHttp.error}），改用浏览器渲染: ${url}`);
+    const viaBrowser = await this.fetchWithBrowser(adapter, url);
+    const attempts = (viaHttp.attempts ?? 0) + 1;
+
+    if (viaBrowser.error) {
+      // 浏览器渲染看到的提示页（如验证、删除）比直接请求的失败原因更具体
+      const specific = BROWSER_RETRY_CODES.has(viaBrowser.errorCode!) ? viaHttp : viaBrowser;
+      return {
+        ...viaHttp,
+        attempts,
+        error: `${viaHttp.error}；浏览器渲染后仍失败: ${viaBrowser.error}`,
+        errorCode: specific.errorCode,
+        retryable: specific.retryable
+      };
+    }
+    return { ...viaBrowser, attempts };
   }
 
-  /**
-   * 提取文章正文内容
-   */
-  private extractContent($: cheerio.CheerioAPI): string {
-    // 微信文章内容的选择器
-    const contentSelectors = [
-      '#js_content',
-      '.rich_media_content',
-      '.weui-article__bd'
-    ];
+  private async fetchWithHttp(adapter: SourceAdapter, url: string): Promise<ExtractedWeChatArticle> {
+    let attempts = 0;
 
-    for (const selector of contentSelectors) {
-      const contentElement = $(selector).first();
-      if (contentElement.length > 0) {
-        // 移除不需要的元素
-        contentElement.find('script, style, .rich_media_tool, .qr_code_pc_outer').remove();
-        
-        // 提取纯文本，保留段落结构
-        let content = '';
-        contentElement.find('p, div, section').each((_, elem) => {
-          const text = $(elem).text().trim();
-          if (text && text.length > 10) { // 过滤掉太短的内容
-            content += text + '\n\n';
-          }
-        });
-        
-        // 如果段落提取失败，直接提取所有文本
-        if (!content) {
-          content = contentElement.text().trim();
-        }
-        
-        return content;
-      }
-    }
+    try {
+      logger.info(`提取文章（${adapter.label}）: ${url}`);
+      const page = await adapter.fetch(url);
+      attempts = page.attempts;
+      return { ...this.parseArticle(adapter, url, page.html, page.url), attempts, strategy: 'http', ingestSource: 'fetch' };
 
-    return '';
+    } catch (error) {
+      logger.error(`提取文章失败 ${url}:`, error);
+      return this.failedResult(url, error, error instanceof RetryExhaustedError ? error.attempts : attempts);
+    }
   }
 
-  /**
-   * 解析中文日期格式
-   */
-  private parseChineseDate(dateStr: string): Date | undefined {
+  private async fetchWithBrowser(adapter: SourceAdapter, url: string): Promise<ExtractedWeChatArticle> {
     try {
-      // 匹配常见的中文日期格式
-      const patterns = [
-        /(\d{4})年(\d{1,2})月(\d{1,2})日/,
-        /(\d{4})-(\d{1,2})-(\d{1,2})/,
-        /(\d{1,2})月(\d{1,2})日/
-      ];
-
-      for (const pattern of patterns) {
-        const match = dateStr.match(pattern);
-        if (match) {
-          if (match.length === 4) {
-            // 完整日期
-            return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
-          } else if (match.length === 3) {
-            // 只有月日，使用当前年份
-            const currentYear = new Date().getFullYear();
-            return new Date(currentYear, parseInt(match[1]) - 1, parseInt(match[2]));
-          }
-        }
+      const page = await this.browser.render(url, { waitForSelector: adapter.waitForSelector });
+      if (page.status !== null && page.status >= 400) {
+        throw new ExtractionError('NETWORK', `页面返回 ${page.status}`);
       }
+      return { ...this.parseArticle(adapter, url, page.html, page.url), attempts: 1, strategy: 'browser', ingestSource: 'fetch' };
+
     } catch (error) {
-      logger.warn('日期解析失败:', dateStr, error);
+      logger.error(`浏览器渲染提取失败 ${url}:`, error);
+      return this.failedResult(url, error, 1);
     }
-    
-    return undefined;
+  }
+
+  private failedResult(url: string, error: unknown, attempts: number): ExtractedWeChatArticle {
+    const failure = classifyExtractionError(error);
+    return {
+      url,
+      title: '提取失败',
+      content: '',
+      attempts,
+      error: failure.message,
+      errorCode: failure.code,
+      retryable: failure.retryable
+    };
   }
 
   /**
-   * 清理文章内容
+   * 由适配器从页面HTML中提取文章
+   * 识别到提示页或正文缺失、过短时适配器抛出 ExtractionError
    */
-  private cleanContent(content: string): string {
-    return content
-      .replace(/\s+/g, ' ') // 合并多个空白字符
-      .replace(/\n\s*\n/g, '\n\n') // 规范化段落分隔
-      .trim()
-      .substring(0, this.maxContentLength); // 限制长度
+  private parseArticle(adapter: SourceAdapter, url: string, html: string, pageUrl?: string): ExtractedWeChatArticle {
+    const $ = cheerio.load(html);
+    return { url, ...adapter.extract($, pageUrl || url || undefined), adapter: adapter.id };
   }
 
   /**
@@ -0,0 +1,125 @@
+import * as cheerio from 'cheerio';
+import { normalizeArticleUrl } from '../../utils/articleUrl';
+import { convertArticleBody } from '../../utils/articleMarkdown';
+import { extractArticleAssets } from '../../utils/articleAssets';
+import { ExtractionError } from '../../utils/extractionErrors';
+import { findMainContent, prepareDocument, readStructuredArticle } from '../../utils/readability';
+import { fetchHtml } from './fetchHtml';
+import { AdapterContent, ArticleMetadata, FetchedPage, SourceAdapter } from './SourceAdapter';
+
+// 标题中常见的站点名分隔符，如“文章标题 - 知乎”
+const TITLE_SEPARATOR = /\s+[-|_–—]\s+|\s*[｜_]\s*/;
+
+/**
+ * 通用网页：知乎专栏、今日头条、36氪及一般博客等没有专门适配器的网站
+ * 按段落密度找出正文容器，标题、作者和发布时间依次取自 Open Graph、JSON-LD 和页面元素
+ */
+export class ReadabilityAdapter implements SourceAdapter {
+  readonly id = 'readability';
+  readonly label = '通用网页';
+  private readonly timeout = 20000;
+  private readonly maxRetries = parseInt(process.env.ARTICLE_FETCH_RETRIES || '2');
+
+  matches(url: string): boolean {
+    return normalizeArticleUrl(url) !== null;
+  }
+
+  canonicalize(url: string): string {
+    return normalizeArticleUrl(url) ?? url.trim();
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    return fetchHtml(url, { timeout: this.timeout, retries: this.maxRetries });
+  }
+
+  extract($: cheerio.CheerioAPI, pageUrl?: string): AdapterContent {
+    const structured = readStructuredArticle($);
+    const meta = (name: string) => $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content')?.trim() || undefined;
+
+    const siteName = meta('og:site_name') || meta('application-name') || structured?.publisher;
+    const metadata: ArticleMetadata = {
+      siteName,
+      description: meta('og:description') || meta('description'),
+      coverUrl: this.absoluteUrl(meta('og:image') || structured?.image, pageUrl),
+      author: structured?.author
+        || meta('author')
+        || this.textAuthor(meta('article:author'))
+        || $('[rel="author"], [itemprop="author"]').first().text().trim()
+        || undefined,
+      publishTime: this.parseDate(
+        meta('article:published_time')
+        || $('meta[itemprop="datePublished"]').attr('content')
+        || meta('pubdate')
+        || meta('publishdate')
+        || structured?.datePublished
+        || $('time[datetime]').first().attr('datetime')
+      )
+    };
+    const title = meta('og:title') || structured?.headline || this.documentTitle($, siteName);
+
+    prepareDocument($, pageUrl);
+    const content = findMainContent($);
+    const body = content ? convertArticleBody(content.get(0)!) : null;
+    if (!body || body.text.length < 50) {
+      throw new ExtractionError('PARSE', '未能识别页面正文或内容过短');
+    }
+
+    return {
+      title: title || '无标题',
+      content: body.text,
+      markdown: body.markdown,
+      coverUrl: metadata.coverUrl,
+      assets: extractArticleAssets($, content!),
+      author: metadata.author,
+      publishDate: metadata.publishTime,
+      metadata: Object.fromEntries(
+        Object.entries(metadata).filter(([, value]) => value !== undefined)
+      ) as ArticleMetadata
+    };
+  }
+
+  /**
+   * 页面只有一个 h1 时使用它，否则从 <title> 中去掉站点名
+   */
+  private documentTitle($: cheerio.CheerioAPI, siteName?: string): string {
+    const headings = $('h1');
+    if (headings.length === 1 && headings.text().trim()) {
+      return headings.text().trim();
+    }
+
+    const title = $('title').first().text().trim();
+    const parts = title.split(TITLE_SEPARATOR).map(part => part.trim()).filter(Boolean);
+    if (parts.length > 1 && (!siteName || parts.some(part => part === siteName))) {
+      return parts.filter(part => part !== siteName).sort((a, b) => b.length - a.length)[0];
+    }
+    return title;
+  }
+
+  // article:author 常是作者主页地址，只取文字
+  private textAuthor(value?: string): string | undefined {
+    return value && !/^https?:\/\//i.test(value) ? value : undefined;
+  }
+
+  private absoluteUrl(value: string | undefined, pageUrl?: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    try {
+      const url = new URL(value, pageUrl);
+      return /^https?:$/.test(url.protocol) ? url.toString() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private parseDate(value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    // 纯数字按秒或毫秒时间戳处理
+    const date = /^\d{10,13}$/.test(value.trim())
+      ? new Date(Number(value) * (value.trim().length === 10 ? 1000 : 1))
+      : new Date(value.trim());
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+}
@@ -0,0 +1,41 @@
+import * as cheerio from 'cheerio';
+import { ExtractedAsset } from '../../utils/articleAssets';
+import { WeChatPageMetadata } from '../../utils/wechatPageMetadata';
+
+// 页面信息：公众号文章来自内联脚本变量，其他网站来自 meta 标签和结构化数据
+export type ArticleMetadata = WeChatPageMetadata & {
+  siteName?: string;
+};
+
+export interface FetchedPage {
+  html: string;
+  url?: string; // 跳转后的最终地址
+  attempts: number; // 请求次数（含重试）
+}
+
+export interface AdapterContent {
+  title: string;
+  content: string; // 纯文本正文
+  markdown?: string;
+  coverUrl?: string;
+  assets?: ExtractedAsset[];
+  author?: string;
+  publishDate?: Date;
+  metadata?: ArticleMetadata;
+}
+
+/**
+ * 文章来源适配器
+ * 各实现负责识别链接、请求页面，并从HTML中提取标题、作者、发布时间和正文；提取失败时抛出 ExtractionError
+ * 浏览器渲染兜底、批量节流和任务日志由 WeChatUrlExtractorService 负责
+ */
+export interface SourceAdapter {
+  readonly id: string;
+  readonly label: string;
+  readonly waitForSelector?: string; // 浏览器渲染时等待出现的正文元素
+  matches(url: string): boolean;
+  canonicalize(url: string): string;
+  recognizes?(html: string): boolean; // 上传的页面没有原链接时，按页面结构判断来源
+  fetch(url: string): Promise<FetchedPage>;
+  extract($: cheerio.CheerioAPI, pageUrl?: string): AdapterContent;
+}
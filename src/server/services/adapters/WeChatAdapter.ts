@@ -0,0 +1,178 @@
+import * as cheerio from 'cheerio';
+import { logger } from '../../utils/logger';
+import { canonicalizeWeChatUrl, isWeChatArticleUrl } from '../../utils/wechatUrl';
+import { convertArticleBody, ConvertedBody } from '../../utils/articleMarkdown';
+import { extractArticleAssets, ExtractedAsset } from '../../utils/articleAssets';
+import { parseWeChatPageMetadata } from '../../utils/wechatPageMetadata';
+import { detectFailurePage, ExtractionError } from '../../utils/extractionErrors';
+import { fetchHtml } from './fetchHtml';
+import { AdapterContent, FetchedPage, SourceAdapter } from './SourceAdapter';
+
+/**
+ * 微信公众号文章 mp.weixin.qq.com
+ */
+export class WeChatAdapter implements SourceAdapter {
+  readonly id = 'wechat';
+  readonly label = '微信公众号';
+  readonly waitForSelector = '#js_content';
+  private readonly timeout = 20000; // 20秒超时，微信文章加载较慢
+  private readonly maxRetries = parseInt(process.env.WECHAT_FETCH_RETRIES || '2');
+
+  matches(url: string): boolean {
+    return isWeChatArticleUrl(url);
+  }
+
+  canonicalize(url: string): string {
+    // 去掉跟踪参数，同一篇文章无论从哪里转发都保存为同一个链接
+    return canonicalizeWeChatUrl(url);
+  }
+
+  recognizes(html: string): boolean {
+    return /id=["']js_content["']|class=["'][^"']*rich_media_content/.test(html);
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    return fetchHtml(url, {
+      timeout: this.timeout,
+      retries: this.maxRetries,
+      headers: {
+        'Referer': 'https://mp.weixin.qq.com/',
+        'Sec-Fetch-Dest': 'document',
+        'Sec-Fetch-Mode': 'navigate',
+        'Sec-Fetch-Site': 'same-origin'
+      }
+    });
+  }
+
+  /**
+   * 从页面中提取文章
+   * 识别到删除、违规、验证、过期或付费提示页，以及正文缺失或过短时抛出 ExtractionError
+   */
+  extract($: cheerio.CheerioAPI, pageUrl?: string): AdapterContent {
+    const body = this.extractContent($);
+
+    const failure = detectFailurePage($, body?.text.length ?? 0, pageUrl);
+    if (failure) {
+      throw new ExtractionError(failure);
+    }
+    if (!body || body.text.length < 50) {
+      throw new ExtractionError('PARSE', '文章内容提取失败或内容过短');
+    }
+
+    const metadata = parseWeChatPageMetadata($);
+    return {
+      title: this.extractTitle($) || '无标题',
+      content: body.text,
+      markdown: body.markdown,
+      coverUrl: metadata.coverUrl,
+      assets: body.assets,
+      author: metadata.author,
+      // 页面上的发布时间由脚本填充，静态HTML中通常为空，优先使用脚本变量
+      publishDate: metadata.publishTime ?? this.extractPublishDate($),
+      metadata
+    };
+  }
+
+  /**
+   * 提取文章标题
+   */
+  private extractTitle($: cheerio.CheerioAPI): string {
+    // 微信文章标题的多种可能选择器
+    const titleSelectors = [
+      '#activity-name',
+      '.rich_media_title',
+      'h1.rich_media_title',
+      '.weui-article__title',
+      'h1'
+    ];
+
+    for (const selector of titleSelectors) {
+      const title = $(selector).first().text().trim();
+      if (title) {
+        return title;
+      }
+    }
+
+    return '';
+  }
+
+  /**
+   * 提取发布时间
+   */
+  private extractPublishDate($: cheerio.CheerioAPI): Date | undefined {
+    const dateSelectors = [
+      '#publish_time',
+      '.weui-article__time'
+    ];
+
+    for (const selector of dateSelectors) {
+      const dateText = $(selector).first().text().trim();
+      if (dateText) {
+        const date = this.parseChineseDate(dateText);
+        if (date) {
+          return date;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 提取文章正文，转换为Markdown和纯文本，并收集其中的媒体资源
+   */
+  private extractContent($: cheerio.CheerioAPI): (ConvertedBody & { assets: ExtractedAsset[] }) | null {
+    // 微信文章内容的选择器
+    const contentSelectors = [
+      '#js_content',
+      '.rich_media_content',
+      '.weui-article__bd'
+    ];
+
+    for (const selector of contentSelectors) {
+      const contentElement = $(selector).first();
+      if (contentElement.length > 0) {
+        // 移除不需要的元素
+        contentElement.find('.rich_media_tool, .qr_code_pc_outer').remove();
+        return {
+          ...convertArticleBody(contentElement.get(0)!),
+          assets: extractArticleAssets($, contentElement)
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析中文日期格式
+   */
+  private parseChineseDate(dateStr: string): Date | undefined {
+    try {
+      // 匹配常见的中文日期格式
+      const patterns = [
+        /(\d{4})年(\d{1,2})月(\d{1,2})日/,
+        /(\d{4})-(\d{1,2})-(\d{1,2})/,
+        /(\d{1,2})月(\d{1,2})日/
+      ];
+
+      for (const pattern of patterns) {
+        const match = dateStr.match(pattern);
+        if (match) {
+          if (match.length === 4) {
+            // 完整日期
+            return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+          } else if (match.length === 3) {
+            // 只有月日，使用当前年份
+            const currentYear = new Date().getFullYear();
+            return new Date(currentYear, parseInt(match[1]) - 1, parseInt(match[2]));
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn('日期解析失败:', dateStr, error);
+    }
+    
+    return undefined;
+  }
+}
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { assertPublicUrl, publicRequestConfig } from '../../utils/networkGuard';
+import { withRetry } from '../../utils/resilience';
+import { FetchedPage } from './SourceAdapter';
+
+export interface FetchHtmlOptions {
+  timeout: number;
+  retries: number;
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+  'Accept-Encoding': 'gzip, deflate',
+  'Connection': 'keep-alive'
+};
+
+/**
+ * 按响应头或页面 meta 声明的编码解码，部分网站仍使用 GBK
+ */
+function decodeHtml(data: ArrayBuffer, contentType: string): string {
+  const bytes = Buffer.from(data);
+  const declared = contentType.match(/charset=([\w-]+)/i)?.[1]
+    ?? bytes.subarray(0, 2048).toString('latin1').match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+    ?? 'utf-8';
+
+  try {
+    return new TextDecoder(declared.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/**
+ * 模拟浏览器请求页面；遇到限流、5xx或连接中断时退避重试
+ * 链接来自用户输入，本机和内网地址（包括跳转后的地址）一律拒绝
+ */
+export async function fetchHtml(url: string, options: FetchHtmlOptions): Promise<FetchedPage> {
+  assertPublicUrl(url);
+  const { value: response, attempts } = await withRetry(() => axios.get<ArrayBuffer>(url, {
+    ...publicRequestConfig,
+    timeout: options.timeout,
+    headers: { ...DEFAULT_HEADERS, ...options.headers },
+    responseType: 'arraybuffer',
+    maxRedirects: 5
+  }), {
+    label: `抓取 ${url}`,
+    retries: options.retries,
+    baseDelay: 2000
+  });
+
+  return {
+    html: decodeHtml(response.data, String(response.headers['content-type'] || '')),
+    // 被重定向到验证页等情况时，最终地址可以直接说明原因
+    url: response.request?.res?.responseUrl,
+    attempts
+  };
+}
@@ -0,0 +1,31 @@
+import { ReadabilityAdapter } from './ReadabilityAdapter';
+import { SourceAdapter } from './SourceAdapter';
+import { WeChatAdapter } from './WeChatAdapter';
+
+export * from './SourceAdapter';
+export { ReadabilityAdapter, WeChatAdapter };
+
+const fallback = new ReadabilityAdapter();
+
+// 按顺序匹配，专门的适配器在前，通用网页适配器兜底
+const adapters: SourceAdapter[] = [new WeChatAdapter(), fallback];
+
+/**
+ * 按链接选择适配器，没有专门适配器的网站使用通用网页适配器
+ */
+export function getAdapterForUrl(url: string): SourceAdapter {
+  return adapters.find(adapter => adapter.matches(url)) ?? fallback;
+}
+
+/**
+ * 上传的页面：有原链接时按链接选择，否则按页面结构判断
+ */
+export function getAdapterForDocument(html: string, url?: string): SourceAdapter {
+  if (url) {
+    const matched = adapters.find(adapter => adapter !== fallback && adapter.matches(url));
+    if (matched) {
+      return matched;
+    }
+  }
+  return adapters.find(adapter => adapter.recognizes?.(html)) ?? fallback;
+}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { ChatMessage, SummarizationProvider } from './SummarizationProvider';
+
+const SENTIMENTS = ['positive', 'negative', 'neutral'] as const;
+
+/**
+ * 确定性的模拟提供方，用于测试和本地开发，不发起任何网络请求
+ * 相同的输入总是得到相同的输出
+ */
+export class MockProvider implements SummarizationProvider {
+  readonly name = 'mock';
+
+  constructor(readonly model = 'mock-summarizer') {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const prompt = messages.map(message => message.content).join('\n');
+    const digest = createHash('sha256').update(prompt).digest();
+
+    const sentences = prompt
+      .split(/[。！？!?\n]/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length >= 8);
+
+    const keyPoints = sentences.slice(-3);
+    while (keyPoints.length < 3) {
+      keyPoints.push(`要点${keyPoints.length + 1}`);
+    }
+
+    // 摘要请求：全部文章归为一个主题，没有分歧
+    if (prompt.includes('"themes"')) {
+      const articles = (prompt.match(/^\[\d+\] /gm) ?? []).map((_, index) => index + 1);
+      return JSON.stringify({
+        overview: `[mock] 共 ${articles.length} 篇文章`,
+        themes: [{ title: '测试', summary: '[mock] 全部文章', articles }],
+        takeaways: [{ point: keyPoints[0], articles: articles.slice(0, 1) }],
+        contradictions: []
+      });
+    }
+
+    return JSON.stringify({
+      summary: `[mock] ${sentences.slice(-1)[0] || '无内容'}`.substring(0, 150),
+      keyPoints,
+      sentiment: SENTIMENTS[digest[0] % SENTIMENTS.length],
+      category: '测试',
+      // 要求提取自定义字段时返回空对象，可选字段均视为文中未提及
+      ...(prompt.includes('"fields"') && { fields: {} })
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import axios from 'axios';
+import { ChatMessage, CompletionOptions, SummarizationProvider } from './SummarizationProvider';
+
+export interface OllamaConfig {
+  baseUrl: string;
+  model: string;
+  timeout?: number;
+}
+
+/**
+ * 本地Ollama服务（/api/chat）
+ */
+export class OllamaProvider implements SummarizationProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+
+  constructor(config: OllamaConfig) {
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.timeout = config.timeout ?? 300000; // 本地模型推理较慢
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/chat`,
+      {
+        model: this.model,
+        messages,
+        stream: false,
+        ...(options.jsonMode && { format: 'json' }),
+        options: {
+          num_predict: options.maxTokens ?? 1000,
+          temperature: options.temperature ?? 0.3
+        }
+      },
+      { timeout: this.timeout }
+    );
+
+    return response.data.message.content;
+  }
+}
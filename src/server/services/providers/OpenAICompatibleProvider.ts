@@ -0,0 +1,51 @@
+import axios from 'axios';
+import { ChatMessage, CompletionOptions, SummarizationProvider } from './SummarizationProvider';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  apiUrl: string;
+  apiKey?: string;
+  model: string;
+  timeout?: number;
+}
+
+/**
+ * OpenAI兼容的Chat Completions接口（DeepSeek、通义千问、Moonshot、llama.cpp server等）
+ */
+export class OpenAICompatibleProvider implements SummarizationProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly apiUrl: string;
+  private readonly apiKey?: string;
+  private readonly timeout: number;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.model = config.model;
+    this.apiUrl = config.apiUrl;
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout ?? 120000;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens ?? 1000,
+        temperature: options.temperature ?? 0.3,
+        ...(options.jsonMode && { response_format: { type: 'json_object' } })
+      },
+      {
+        timeout: this.timeout,
+        headers: {
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    return response.data.choices[0].message.content;
+  }
+}
@@ -0,0 +1,20 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean; // 要求模型只输出JSON对象（若提供方支持）
+}
+
+/**
+ * 大模型提供方接口
+ * 各实现只负责把对话消息发送给模型并返回文本，提示词与结果解析由SummarizerService负责
+ */
+export interface SummarizationProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
@@ -0,0 +1,112 @@
+import { MockProvider } from './MockProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { SummarizationProvider } from './SummarizationProvider';
+
+export * from './SummarizationProvider';
+export { MockProvider, OllamaProvider, OpenAICompatibleProvider };
+
+interface OpenAICompatiblePreset {
+  urlEnv: string;
+  keyEnv?: string;
+  modelEnv: string;
+  defaultUrl?: string;
+  defaultModel: string;
+}
+
+// OpenAI兼容接口的预设，均可通过环境变量覆盖地址与默认模型
+const OPENAI_COMPATIBLE_PRESETS: Record<string, OpenAICompatiblePreset> = {
+  deepseek: {
+    urlEnv: 'DEEPSEEK_API_URL',
+    keyEnv: 'DEEPSEEK_API_KEY',
+    modelEnv: 'DEEPSEEK_MODEL',
+    defaultModel: 'deepseek-chat'
+  },
+  qwen: {
+    urlEnv: 'QWEN_API_URL',
+    keyEnv: 'QWEN_API_KEY',
+    modelEnv: 'QWEN_MODEL',
+    defaultUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions',
+    defaultModel: 'qwen-plus'
+  },
+  moonshot: {
+    urlEnv: 'MOONSHOT_API_URL',
+    keyEnv: 'MOONSHOT_API_KEY',
+    modelEnv: 'MOONSHOT_MODEL',
+    defaultUrl: 'https://api.moonshot.cn/v1/chat/completions',
+    defaultModel: 'moonshot-v1-32k'
+  },
+  llamacpp: {
+    urlEnv: 'LLAMACPP_API_URL',
+    modelEnv: 'LLAMACPP_MODEL',
+    defaultUrl: 'http://localhost:8080/v1/chat/completions',
+    defaultModel: 'local'
+  }
+};
+
+export const PROVIDER_NAMES = [...Object.keys(OPENAI_COMPATIBLE_PRESETS), 'ollama', 'mock'];
+
+// 模型名来自请求参数，缓存数量有上限，超出时淘汰最久未使用的实例
+const MAX_CACHED_PROVIDERS = 32;
+const instances = new Map<string, SummarizationProvider>();
+
+export function getDefaultProviderName(): string {
+  return process.env.LLM_PROVIDER || 'deepseek';
+}
+
+/**
+ * 按名称和模型获取提供方实例，未指定时使用 LLM_PROVIDER 环境变量
+ */
+export function getProvider(name?: string | null, model?: string | null): SummarizationProvider {
+  const providerName = name || getDefaultProviderName();
+  const cacheKey = `${providerName}:${model || ''}`;
+
+  let provider = instances.get(cacheKey);
+  if (provider) {
+    // 重新插入，Map 按插入顺序排列，最前面的即最久未使用
+    instances.delete(cacheKey);
+  } else {
+    provider = createProvider(providerName, model || undefined);
+    if (instances.size >= MAX_CACHED_PROVIDERS) {
+      instances.delete(instances.keys().next().value!);
+    }
+  }
+  instances.set(cacheKey, provider);
+
+  return provider;
+}
+
+function createProvider(name: string, model?: string): SummarizationProvider {
+  if (name === 'mock') {
+    return new MockProvider(model);
+  }
+
+  if (name === 'ollama') {
+    return new OllamaProvider({
+      baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+      model: model || process.env.OLLAMA_MODEL || 'qwen2.5:7b'
+    });
+  }
+
+  const preset = OPENAI_COMPATIBLE_PRESETS[name];
+  if (!preset) {
+    throw new Error(`不支持的模型提供方: ${name}`);
+  }
+
+  const apiUrl = process.env[preset.urlEnv] || preset.defaultUrl;
+  const apiKey = preset.keyEnv ? process.env[preset.keyEnv] : undefined;
+
+  if (preset.keyEnv && !apiKey) {
+    throw new Error(`${preset.keyEnv} environment variable is not set`);
+  }
+  if (!apiUrl) {
+    throw new Error(`${preset.urlEnv} environment variable is not set`);
+  }
+
+  return new OpenAICompatibleProvider({
+    name,
+    apiUrl,
+    apiKey,
+    model: model || process.env[preset.modelEnv] || preset.defaultModel
+  });
+}
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import { ArticleSource, DiscoveredArticle } from './ArticleSource';
+
+interface AlbumArticle {
+  title?: string;
+  url?: string;
+  create_time?: string;
+  msgid?: string;
+  itemidx?: string;
+}
+
+/**
+ * 公众号合集（专辑）页面，链接形如 https://mp.weixin.qq.com/mp/appmsgalbum?__biz=xxx&album_id=xxx
+ * 通过合集页面自带的JSON接口按时间倒序翻页
+ */
+export class AlbumSource implements ArticleSource {
+  readonly type = 'album';
+  private readonly pageSize = 20;
+  private readonly maxPages = 10;
+
+  constructor(private readonly baseUrl: string, private readonly timeout = 20000) {}
+
+  validate(source: string): string | null {
+    return this.parseAlbum(source) ? null : '合集链接需包含 __biz 和 album_id 参数';
+  }
+
+  async discover(source: string, since: Date): Promise<DiscoveredArticle[]> {
+    const album = this.parseAlbum(source);
+    if (!album) {
+      throw new Error('合集链接需包含 __biz 和 album_id 参数');
+    }
+
+    const articles: DiscoveredArticle[] = [];
+    let cursor: { msgid: string; itemidx: string } | undefined;
+
+    for (let page = 0; page < this.maxPages; page++) {
+      const response = await axios.get(`${this.baseUrl}/mp/appmsgalbum`, {
+        timeout: this.timeout,
+        params: {
+          action: 'getalbum',
+          __biz: album.biz,
+          album_id: album.albumId,
+          count: this.pageSize,
+          f: 'json',
+          ...(cursor && { begin_msgid: cursor.msgid, begin_itemidx: cursor.itemidx })
+        }
+      });
+
+      const data = response.data;
+      if (data?.base_resp?.ret !== undefined && data.base_resp.ret !== 0) {
+        throw new Error(`获取合集文章失败，错误码: ${data.base_resp.ret}`);
+      }
+
+      // 只有一篇文章时接口返回对象而不是数组
+      const list = data?.getalbum_resp?.article_list;
+      const items: AlbumArticle[] = Array.isArray(list) ? list : list ? [list] : [];
+
+      let reachedSince = false;
+      for (const item of items) {
+        const publishDate = item.create_time ? new Date(Number(item.create_time) * 1000) : undefined;
+        if (publishDate && publishDate <= since) {
+          reachedSince = true;
+          break;
+        }
+        if (item.url) {
+          articles.push({ url: item.url, title: item.title, publishDate });
+        }
+      }
+
+      const last = items[items.length - 1];
+      if (reachedSince || data?.getalbum_resp?.continue_flag !== '1' || !last?.msgid) {
+        break;
+      }
+      cursor = { msgid: last.msgid, itemidx: last.itemidx ?? '1' };
+    }
+
+    return articles;
+  }
+
+  private parseAlbum(source: string): { biz: string; albumId: string } | null {
+    try {
+      const url = new URL(source);
+      const biz = url.searchParams.get('__biz');
+      const albumId = url.searchParams.get('album_id');
+      return biz && albumId ? { biz, albumId } : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+export const SOURCE_TYPES = ['biz', 'feed', 'album'] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+export interface DiscoveredArticle {
+  url: string;
+  title?: string;
+  publishDate?: Date;
+}
+
+/**
+ * 订阅来源接口
+ * 各实现只负责列出来源中发布于 since 之后的文章链接，抓取与总结由批量任务完成
+ */
+export interface ArticleSource {
+  readonly type: SourceType;
+  validate(source: string): string | null; // 返回错误信息，合法时返回null
+  discover(source: string, since: Date): Promise<DiscoveredArticle[]>;
+}
@@ -0,0 +1,98 @@
+import axios from 'axios';
+import { ArticleSource, DiscoveredArticle } from './ArticleSource';
+
+interface AppMsgInfo {
+  title?: string;
+  content_url?: string;
+}
+
+interface ProfileMessage {
+  comm_msg_info?: { datetime?: number };
+  app_msg_ext_info?: AppMsgInfo & { multi_app_msg_item_list?: AppMsgInfo[] };
+}
+
+/**
+ * 公众号历史消息（profile_ext），来源为公众号的 __biz 标识
+ * 该接口需要微信客户端的登录参数，通过 WECHAT_PROFILE_PARAMS 配置（如 uin=xxx&key=xxx&pass_ticket=xxx）
+ */
+export class BizSource implements ArticleSource {
+  readonly type = 'biz';
+  private readonly pageSize = 10;
+  private readonly maxPages = 10;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly profileParams = '',
+    private readonly timeout = 20000
+  ) {}
+
+  validate(source: string): string | null {
+    return /^[A-Za-z0-9+/=]+$/.test(source) ? null : `__biz 标识无效: ${source}`;
+  }
+
+  async discover(source: string, since: Date): Promise<DiscoveredArticle[]> {
+    const articles: DiscoveredArticle[] = [];
+    let offset = 0;
+
+    for (let page = 0; page < this.maxPages; page++) {
+      const response = await axios.get(`${this.baseUrl}/mp/profile_ext?${this.profileParams}`, {
+        timeout: this.timeout,
+        params: {
+          action: 'getmsg',
+          __biz: source,
+          f: 'json',
+          offset,
+          count: this.pageSize
+        }
+      });
+
+      const data = response.data;
+      if (data?.ret !== 0) {
+        throw new Error(data?.errmsg ? `获取历史消息失败: ${data.errmsg}` : `获取历史消息失败，错误码: ${data?.ret}`);
+      }
+
+      // 消息列表本身是JSON字符串
+      const messages: ProfileMessage[] = JSON.parse(data.general_msg_list || '{"list":[]}').list ?? [];
+
+      let reachedSince = false;
+      for (const message of messages) {
+        const publishDate = message.comm_msg_info?.datetime
+          ? new Date(message.comm_msg_info.datetime * 1000)
+          : undefined;
+        if (publishDate && publishDate <= since) {
+          reachedSince = true;
+          break;
+        }
+
+        // 一次推送可能包含多篇图文
+        const info = message.app_msg_ext_info;
+        for (const item of info ? [info, ...(info.multi_app_msg_item_list ?? [])] : []) {
+          if (item.content_url) {
+            articles.push({
+              url: this.toArticleUrl(item.content_url),
+              title: item.title,
+              publishDate
+            });
+          }
+        }
+      }
+
+      if (reachedSince || data.can_msg_continue !== 1) {
+        break;
+      }
+      offset = data.next_offset ?? offset + messages.length;
+    }
+
+    return articles;
+  }
+
+  /**
+   * 接口返回的链接经过HTML转义，且通常为http协议
+   */
+  private toArticleUrl(url: string): string {
+    return url
+      .replace(/&amp;/g, '&')
+      .replace(/\\\//g, '/')
+      .replace(/^http:\/\//, 'https://');
+  }
+}
@@ -0,0 +1,79 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { assertPublicUrl, publicRequestConfig } from '../../utils/networkGuard';
+import { ArticleSource, DiscoveredArticle } from './ArticleSource';
+
+/**
+ * RSS 2.0 / Atom 订阅地址，例如第三方为公众号生成的RSS
+ */
+export class FeedSource implements ArticleSource {
+  readonly type = 'feed';
+
+  constructor(private readonly timeout = 20000) {}
+
+  validate(source: string): string | null {
+    let url: URL;
+    try {
+      url = new URL(source);
+    } catch {
+      return `RSS地址无效: ${source}`;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'RSS地址必须是http或https链接';
+    }
+    // 域名在请求时解析后再检查，这里只能拦截直接写成IP的内网地址
+    try {
+      assertPublicUrl(source);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    return null;
+  }
+
+  /**
+   * 订阅地址来自用户配置且定时请求，本机和内网地址（包括跳转后的地址）一律拒绝
+   */
+  async discover(source: string, since: Date): Promise<DiscoveredArticle[]> {
+    assertPublicUrl(source);
+    const response = await axios.get(source, {
+      ...publicRequestConfig,
+      timeout: this.timeout,
+      responseType: 'text',
+      headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' }
+    });
+
+    const $ = cheerio.load(response.data, { xmlMode: true });
+    const articles: DiscoveredArticle[] = [];
+
+    $('item').each((_, element) => {
+      const item = $(element);
+      articles.push({
+        url: item.children('link').first().text().trim(),
+        title: item.children('title').first().text().trim() || undefined,
+        publishDate: this.parseDate(item.children('pubDate').first().text() || item.children('dc\\:date').first().text())
+      });
+    });
+
+    $('entry').each((_, element) => {
+      const entry = $(element);
+      const link = entry.children('link[rel="alternate"]').first().attr('href')
+        || entry.children('link').first().attr('href')
+        || '';
+      articles.push({
+        url: link.trim(),
+        title: entry.children('title').first().text().trim() || undefined,
+        publishDate: this.parseDate(entry.children('published').first().text() || entry.children('updated').first().text())
+      });
+    });
+
+    return articles.filter(article => article.url && (!article.publishDate || article.publishDate > since));
+  }
+
+  private parseDate(value: string): Date | undefined {
+    if (!value.trim()) {
+      return undefined;
+    }
+    const date = new Date(value.trim());
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+}
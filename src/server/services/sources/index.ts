@@ -0,0 +1,23 @@
+import { AlbumSource } from './AlbumSource';
+import { ArticleSource, SourceType } from './ArticleSource';
+import { BizSource } from './BizSource';
+import { FeedSource } from './FeedSource';
+
+export * from './ArticleSource';
+export { AlbumSource, BizSource, FeedSource };
+
+export type ArticleSources = Record<SourceType, ArticleSource>;
+
+/**
+ * 创建各类订阅来源，WECHAT_MP_BASE_URL 可将微信接口指向本地的模拟服务
+ */
+export function createArticleSources(
+  baseUrl = process.env.WECHAT_MP_BASE_URL || 'https://mp.weixin.qq.com'
+): ArticleSources {
+  const normalizedUrl = baseUrl.replace(/\/+$/, '');
+  return {
+    biz: new BizSource(normalizedUrl, process.env.WECHAT_PROFILE_PARAMS || ''),
+    feed: new FeedSource(),
+    album: new AlbumSource(normalizedUrl)
+  };
+}
@@ -0,0 +1,159 @@
+import * as cheerio from 'cheerio';
+import { AnyNode, Element } from 'domhandler';
+
+export const ASSET_TYPES = ['cover', 'image', 'video', 'audio', 'miniprogram'] as const;
+export type AssetType = typeof ASSET_TYPES[number];
+
+export interface ExtractedAsset {
+  type: AssetType;
+  url: string;
+  caption?: string;
+  metadata?: Record<string, string>; // 尺寸、视频ID、小程序路径等原始属性
+}
+
+// 微信给没有说明的图片填充的默认 alt
+const PLACEHOLDER_ALTS = new Set(['', '图片', 'image', 'img']);
+
+// 正文中需要收集的元素，按文档顺序返回
+const ASSET_SELECTOR = [
+  'img',
+  'iframe.video_iframe',
+  'iframe[data-mpvid]',
+  'mpvideosnap',
+  'mp-common-videosnap',
+  'mpvoice',
+  'mp-common-mpaudio',
+  'qqmusic',
+  'mp-miniprogram',
+  'a[data-miniprogram-appid]'
+].join(', ');
+
+/**
+ * 取出非空属性，键名去掉 data- 前缀
+ */
+function pickAttributes(node: Element, names: string[]): Record<string, string> | undefined {
+  const picked: Record<string, string> = {};
+  for (const name of names) {
+    const value = node.attribs[name]?.trim();
+    if (value) {
+      picked[name.replace(/^data-/, '')] = value;
+    }
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+function isRemoteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * 按出现顺序收集正文中的图片、视频、音频和小程序卡片
+ */
+export function extractArticleAssets($: cheerio.CheerioAPI, content: cheerio.Cheerio<AnyNode>): ExtractedAsset[] {
+  const assets: ExtractedAsset[] = [];
+
+  content.find(ASSET_SELECTOR).each((_, node) => {
+    const asset = toAsset($, node);
+    if (asset) {
+      assets.push(asset);
+    }
+  });
+
+  return assets;
+}
+
+function toAsset($: cheerio.CheerioAPI, node: Element): ExtractedAsset | null {
+  const attr = (name: string) => node.attribs[name]?.trim() ?? '';
+
+  switch (node.name) {
+    case 'img': {
+      // 正文图片懒加载，真实地址在 data-src 中；src 通常是占位的 data: 地址
+      const url = attr('data-src') || attr('src');
+      if (!isRemoteUrl(url)) {
+        return null;
+      }
+      const figcaption = $(node).closest('figure').find('figcaption').first().text().trim();
+      const alt = attr('alt');
+      return {
+        type: 'image',
+        url,
+        caption: figcaption || (PLACEHOLDER_ALTS.has(alt.toLowerCase()) ? undefined : alt),
+        metadata: pickAttributes(node, ['data-w', 'data-ratio', 'data-type'])
+      };
+    }
+
+    case 'iframe': {
+      const url = attr('data-src') || attr('src');
+      if (!isRemoteUrl(url)) {
+        return null;
+      }
+      return {
+        type: 'video',
+        url,
+        metadata: pickAttributes(node, ['data-mpvid', 'data-vidtype', 'data-cover'])
+      };
+    }
+
+    case 'mpvideosnap':
+    case 'mp-common-videosnap': {
+      // 视频号视频，没有可直接访问的地址时记录视频ID
+      const url = attr('data-url') || (attr('data-id') && `https://channels.weixin.qq.com/web/pages/feed?oid=${encodeURIComponent(attr('data-id'))}`);
+      if (!url) {
+        return null;
+      }
+      return {
+        type: 'video',
+        url,
+        caption: attr('data-desc') || undefined,
+        metadata: pickAttributes(node, ['data-id', 'data-nickname', 'data-username', 'data-headimgurl'])
+      };
+    }
+
+    case 'mpvoice':
+    case 'mp-common-mpaudio': {
+      const fileId = attr('voice_encode_fileid') || attr('data-voice_encode_fileid');
+      if (!fileId) {
+        return null;
+      }
+      return {
+        type: 'audio',
+        url: `https://res.wx.qq.com/voice/getvoice?mediaid=${encodeURIComponent(fileId)}`,
+        caption: attr('name') || attr('data-name') || undefined,
+        metadata: pickAttributes(node, ['voice_encode_fileid', 'play_length', 'data-play_length', 'data-author'])
+      };
+    }
+
+    case 'qqmusic': {
+      const url = attr('audiourl') || attr('musicurl');
+      if (!isRemoteUrl(url)) {
+        return null;
+      }
+      return {
+        type: 'audio',
+        url,
+        caption: [attr('music_name') || attr('musicname'), attr('singer')].filter(Boolean).join(' - ') || undefined,
+        metadata: pickAttributes(node, ['musicid', 'mid', 'albumurl', 'play_length'])
+      };
+    }
+
+    default: {
+      // 小程序卡片或小程序文字链接
+      const appId = attr('data-miniprogram-appid');
+      if (!appId) {
+        return null;
+      }
+      const query = new URLSearchParams({ appid: appId, ...(attr('data-miniprogram-path') && { path: attr('data-miniprogram-path') }) });
+      return {
+        type: 'miniprogram',
+        url: `weixin://dl/business/?${query.toString()}`,
+        caption: attr('data-miniprogram-title') || $(node).text().trim() || undefined,
+        metadata: pickAttributes(node, [
+          'data-miniprogram-appid',
+          'data-miniprogram-path',
+          'data-miniprogram-nickname',
+          'data-miniprogram-imageurl'
+        ])
+      };
+    }
+  }
+}
@@ -0,0 +1,350 @@
+import { AnyNode, Element, hasChildren, isTag, isText } from 'domhandler';
+
+export interface ConvertedBody {
+  markdown: string; // 保留标题、列表、引用、表格、图片等结构，供总结使用
+  text: string; // 纯文本，保留段落，用于搜索、去重和展示
+}
+
+type RenderMode = 'markdown' | 'text';
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'center',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'figure', 'figcaption', 'hr'
+]);
+
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'iframe', 'svg', 'button', 'input', 'select', 'textarea', 'template'
+]);
+
+// 微信给没有说明的图片填充的默认 alt
+const PLACEHOLDER_ALTS = new Set(['', '图片', 'image', 'img']);
+
+/**
+ * 把公众号正文（#js_content）转换为 Markdown 和纯文本
+ * 正文由层层嵌套的 section 组成，按块级元素逐层展开，每段文字只输出一次
+ */
+export function convertArticleBody(root: AnyNode): ConvertedBody {
+  return {
+    markdown: new BodyRenderer('markdown').render(root),
+    text: new BodyRenderer('text').render(root)
+  };
+}
+
+function attr(node: Element, name: string): string {
+  return (node.attribs[name] ?? '').trim();
+}
+
+function isHidden(node: Element): boolean {
+  return /display\s*:\s*none/i.test(node.attribs.style ?? '');
+}
+
+function isSkipped(node: Element): boolean {
+  return SKIPPED_TAGS.has(node.name) || isHidden(node);
+}
+
+function containsBlock(node: Element): boolean {
+  return node.children.some(child => isTag(child) && (BLOCK_TAGS.has(child.name) || containsBlock(child)));
+}
+
+function findAll(node: Element, names: string[]): Element[] {
+  return node.children.flatMap(child => {
+    if (!isTag(child)) {
+      return [];
+    }
+    return names.includes(child.name) ? [child, ...findAll(child, names)] : findAll(child, names);
+  });
+}
+
+/**
+ * 按原样取出文本，保留空白和换行，用于代码块
+ */
+function rawText(node: AnyNode): string {
+  if (isText(node)) {
+    return node.data;
+  }
+  if (!isTag(node)) {
+    return '';
+  }
+  if (node.name === 'br') {
+    return '\n';
+  }
+  // 微信代码块中的行号列表
+  if (node.name === 'ul' && /line-index/.test(attr(node, 'class'))) {
+    return '';
+  }
+  return node.children.map(rawText).join('');
+}
+
+class BodyRenderer {
+  private boldDepth = 0;
+  private italicDepth = 0;
+
+  constructor(private readonly mode: RenderMode) {}
+
+  render(root: AnyNode): string {
+    return this.blocks(hasChildren(root) ? root.children : []).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  /**
+   * 把一组兄弟节点转换为块，相邻的行内节点合并为一个段落
+   */
+  private blocks(nodes: AnyNode[]): string[] {
+    const blocks: string[] = [];
+    let inline = '';
+
+    const flush = () => {
+      const paragraph = this.cleanParagraph(inline);
+      if (paragraph) {
+        blocks.push(paragraph);
+      }
+      inline = '';
+    };
+
+    for (const node of nodes) {
+      if (isTag(node) && isSkipped(node)) {
+        continue;
+      }
+      // span 等行内元素里也可能包着 section，此时按块处理
+      if (isTag(node) && (BLOCK_TAGS.has(node.name) || containsBlock(node))) {
+        flush();
+        blocks.push(...this.block(node));
+      } else {
+        inline += this.inline(node);
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+  private block(node: Element): string[] {
+    const markdown = this.mode === 'markdown';
+
+    switch (node.name) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        // 标题本身已突出显示，不再加粗
+        const text = this.cleanParagraph(this.withoutEmphasis(() => this.inlineChildren(node))).replace(/\n+/g, ' ');
+        if (!text) {
+          return [];
+        }
+        return [markdown ? `${'#'.repeat(Number(node.name[1]))} ${text}` : text];
+      }
+
+      case 'ul':
+      case 'ol':
+        return [this.list(node)].filter(Boolean);
+
+      case 'blockquote': {
+        const inner = this.blocks(node.children).join('\n\n');
+        if (!inner) {
+          return [];
+        }
+        return [markdown ? inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n') : inner];
+      }
+
+      case 'pre':
+        return [this.codeBlock(node)].filter(Boolean);
+
+      case 'table':
+        return [this.table(node)].filter(Boolean);
+
+      case 'figure': {
+        const caption = findAll(node, ['figcaption'])
+          .map(figcaption => this.cleanParagraph(this.inlineChildren(figcaption)))
+          .join(' ');
+        const images = findAll(node, ['img']).map(img => this.image(img, caption)).filter(Boolean);
+        if (images.length > 0) {
+          return images;
+        }
+        return caption ? [caption] : [];
+      }
+
+      case 'hr':
+        return markdown ? ['---'] : [];
+
+      default:
+        return this.blocks(node.children);
+    }
+  }
+
+  private inline(node: AnyNode): string {
+    if (isText(node)) {
+      return node.data.replace(/[\u200b-\u200d\ufeff]/g, '').replace(/\s+/g, ' ');
+    }
+    if (!isTag(node) || isSkipped(node)) {
+      return '';
+    }
+
+    const markdown = this.mode === 'markdown';
+    switch (node.name) {
+      case 'br':
+        return '\n';
+
+      case 'img':
+        return this.image(node, '');
+
+      case 'strong':
+      case 'b': {
+        if (!markdown || this.boldDepth > 0) {
+          return this.inlineChildren(node);
+        }
+        this.boldDepth++;
+        const inner = this.inlineChildren(node);
+        this.boldDepth--;
+        return this.wrap(inner, '**');
+      }
+
+      case 'em':
+      case 'i': {
+        if (!markdown || this.italicDepth > 0) {
+          return this.inlineChildren(node);
+        }
+        this.italicDepth++;
+        const inner = this.inlineChildren(node);
+        this.italicDepth--;
+        return this.wrap(inner, '*');
+      }
+
+      case 'code': {
+        const code = rawText(node).replace(/\s+/g, ' ').trim();
+        if (!code) {
+          return '';
+        }
+        if (!markdown) {
+          return code;
+        }
+        const fence = code.includes('`') ? '``' : '`';
+        return `${fence}${code}${fence}`;
+      }
+
+      case 'a': {
+        const inner = this.inlineChildren(node);
+        const href = attr(node, 'href');
+        if (!markdown || !inner.trim() || !/^https?:\/\//i.test(href)) {
+          return inner;
+        }
+        return `[${inner.trim()}](${href})`;
+      }
+
+      default:
+        return this.inlineChildren(node);
+    }
+  }
+
+  private inlineChildren(node: Element): string {
+    return node.children.map(child => this.inline(child)).join('');
+  }
+
+  private withoutEmphasis(render: () => string): string {
+    this.boldDepth++;
+    const result = render();
+    this.boldDepth--;
+    return result;
+  }
+
+  /**
+   * 用强调标记包住文字，标记放在首尾空白之内，否则 Markdown 不识别
+   */
+  private wrap(inner: string, marker: string): string {
+    const match = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : inner;
+  }
+
+  /**
+   * 整理段落：去掉每行首尾空白和空行
+   */
+  private cleanParagraph(text: string): string {
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * 图片占位：Markdown 保留图片地址和说明，纯文本只在有说明时保留
+   * 微信正文图片懒加载，地址在 data-src 中
+   */
+  private image(node: Element, caption: string): string {
+    const alt = attr(node, 'alt');
+    const description = caption || (PLACEHOLDER_ALTS.has(alt.toLowerCase()) ? '' : alt);
+    const src = attr(node, 'data-src') || attr(node, 'src');
+
+    if (this.mode === 'text') {
+      return description ? `[图片：${description}]` : '';
+    }
+    if (!src || src.startsWith('data:')) {
+      return description ? `[图片：${description}]` : '';
+    }
+    return `![${description.replace(/[[\]]/g, '')}](${src})`;
+  }
+
+  private list(node: Element): string {
+    const ordered = node.name === 'ol';
+    const start = parseInt(attr(node, 'start')) || 1;
+    const items = node.children.filter((child): child is Element => isTag(child) && child.name === 'li');
+
+    return items
+      .map((item, index) => {
+        const body = this.blocks(item.children).join('\n');
+        if (!body) {
+          return '';
+        }
+        const marker = ordered ? `${start + index}.` : '-';
+        const indent = ' '.repeat(marker.length + 1);
+        const [first, ...rest] = body.split('\n');
+        return [`${marker} ${first}`, ...rest.map(line => (line ? indent + line : line))].join('\n');
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * 代码块。微信的代码片段每行是一个 code 元素，语言写在 class 上（code-snippet__js）
+   */
+  private codeBlock(node: Element): string {
+    const lines = findAll(node, ['code']);
+    const code = (lines.length > 1 ? lines.map(rawText).join('\n') : rawText(node))
+      .replace(/\u00a0/g, ' ')
+      .replace(/^\n+|\s+$/g, '');
+    if (!code) {
+      return '';
+    }
+    if (this.mode === 'text') {
+      return code;
+    }
+
+    const classes = [attr(node, 'class'), ...lines.map(line => attr(line, 'class'))].join(' ');
+    const language = attr(node, 'data-lang')
+      || classes.match(/(?:code-snippet__|language-|lang-)([\w+#-]+)/)?.[1]
+      || '';
+    const fence = code.includes('```') ? '````' : '```';
+    return `${fence}${language}\n${code}\n${fence}`;
+  }
+
+  private table(node: Element): string {
+    const rows = findAll(node, ['tr'])
+      .map(row => row.children
+        .filter((cell): cell is Element => isTag(cell) && (cell.name === 'td' || cell.name === 'th'))
+        .map(cell => this.blocks(cell.children).join(' ').replace(/\n+/g, ' ').trim()))
+      .filter(cells => cells.some(Boolean));
+    if (rows.length === 0) {
+      return '';
+    }
+
+    if (this.mode === 'text') {
+      return rows.map(cells => cells.join(' | ')).join('\n');
+    }
+
+    const width = Math.max(...rows.map(cells => cells.length));
+    const toLine = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+    return [toLine(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(toLine)].join('\n');
+  }
+}
@@ -0,0 +1,84 @@
+import { parseWeChatUrl, WECHAT_HOST } from './wechatUrl';
+
+export interface CollectedUrls {
+  urls: string[]; // 去重后的规范链接，保持首次出现的顺序
+  duplicates: number; // 重复（含仅跟踪参数不同）被去掉的链接数
+  invalid: string[]; // 无法识别为文章链接的输入
+}
+
+// 从任意文本中找出链接，遇到空白、引号、括号或中文标点即视为链接结束
+const URL_IN_TEXT_PATTERN = /https?:\/\/[^\s<>"'`()（）[\]【】{}，。；！？、]+/gi;
+
+// 网页源码中的图片、样式、脚本等资源链接不是文章
+const RESOURCE_PATTERN = /\.(png|jpe?g|gif|webp|svg|ico|bmp|css|js|mjs|json|xml|woff2?|ttf|eot|mp3|mp4|m3u8|zip|rar|apk)$/i;
+
+// 分享和统计用的查询参数，不影响文章内容
+const TRACKING_PARAMS = /^(utm_\w+|spm|share_token|share_source|tt_from|wxshare_count|isappinstalled|s_r|s_s_i)$/i;
+
+/**
+ * 一般网页链接的规范形式：去掉锚点和分享跟踪参数
+ * 不是 http(s) 链接时返回null
+ */
+export function normalizeArticleUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim().replace(/&amp;/g, '&'));
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  url.hash = '';
+  for (const name of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(name)) {
+      url.searchParams.delete(name);
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * 规范化并去重一组文章链接：公众号文章按文章身份去重，其他网站按规范链接去重
+ */
+export function collectArticleUrls(inputs: string[]): CollectedUrls {
+  const seen = new Set<string>();
+  const result: CollectedUrls = { urls: [], duplicates: 0, invalid: [] };
+
+  for (const input of inputs) {
+    if (!input.trim()) {
+      continue;
+    }
+
+    const wechat = parseWeChatUrl(input);
+    const normalized = wechat ? null : normalizeArticleUrl(input);
+    const key = wechat?.key ?? (normalized && `url:${normalized}`);
+    // 公众号主页、合集等非文章页面无法总结
+    if (!key || (!wechat && new URL(normalized!).hostname === WECHAT_HOST)) {
+      result.invalid.push(input.trim());
+    } else if (seen.has(key)) {
+      result.duplicates++;
+    } else {
+      seen.add(key);
+      result.urls.push(wechat?.canonicalUrl ?? normalized!);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 从聊天记录、阅读清单、网页源码等任意文本中提取全部文章链接并去重
+ */
+export function extractArticleUrls(text: string): CollectedUrls {
+  // JSON 中的链接常写作 https:\/\/example.com\/...
+  const candidates = (text.replace(/\\\//g, '/').match(URL_IN_TEXT_PATTERN) ?? [])
+    .map(candidate => candidate.replace(/[.,;:!?]+$/, ''))
+    .filter(candidate => !RESOURCE_PATTERN.test(candidate.split(/[?#]/)[0]));
+  const collected = collectArticleUrls(candidates);
+
+  // 文本中无法总结的链接（如公众号主页）不算无效输入
+  return { ...collected, invalid: [] };
+}
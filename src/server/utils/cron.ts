@@ -0,0 +1,136 @@
+/**
+ * 五段式cron表达式：分 时 日 月 周
+ * 每段支持 *、数字、范围 a-b、列表 a,b，以及在 * 或范围后加 /n 表示步长；周日可写作 0 或 7
+ * 日和周同时限定时满足其一即可，与标准cron一致
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // 日字段为 *
+  anyWeekday: boolean; // 周字段为 *
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 }
+];
+
+// 查找下一次执行时间时最多向后搜索的范围，足以覆盖 2月29日 这类表达式
+const MAX_SEARCH_YEARS = 8;
+
+function parseField(field: string, index: number): Set<number> {
+  const { name, min, max } = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`${name}字段格式无效: ${part}`);
+    }
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${name}字段超出范围 ${min}-${max}: ${part}`);
+    }
+    if (step < 1) {
+      throw new Error(`${name}字段步长无效: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('cron表达式应包含5个字段：分 时 日 月 周');
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map(parseField);
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  };
+}
+
+/**
+ * 校验cron表达式，返回错误信息
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return dayMatch && weekdayMatch;
+  }
+  return dayMatch || weekdayMatch;
+}
+
+/**
+ * 计算 after 之后（不含）的下一次执行时间，按本地时间计算；找不到时返回null
+ */
+export function nextRun(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(date.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // 不匹配时直接跳到下一个月/日/小时的起点，避免逐分钟遍历
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
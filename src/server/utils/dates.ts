@@ -0,0 +1,30 @@
+/**
+ * 解析查询参数中的日期，只有日期部分时按本地时间解析，结束日期包含当天全天
+ * 未传入时返回undefined，格式无效时返回null
+ */
+export function parseDateParam(value: unknown, endOfDay: boolean): Date | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const dateOnly = String(value).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const date = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    if (endOfDay) {
+      date.setHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 按本地时间格式化为 yyyy-MM-dd
+ */
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,119 @@
+import { formatDate } from './dates';
+import { DigestArticle, DigestContent } from './digestSchema';
+import { escapeHtml } from './html';
+
+function findArticles(content: DigestContent, articleIds: string[]): DigestArticle[] {
+  return articleIds
+    .map(id => content.articles.find(article => article.id === id))
+    .filter((article): article is DigestArticle => !!article);
+}
+
+function describeRange(content: DigestContent): string {
+  return `${formatDate(content.rangeStart)} 至 ${formatDate(content.rangeEnd)} · 共 ${content.articles.length} 篇文章`;
+}
+
+function escapeMarkdownLinkText(text: string): string {
+  return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+function markdownLink(article: DigestArticle): string {
+  return `[${escapeMarkdownLinkText(article.title)}](${article.url.replace(/\)/g, '%29')})`;
+}
+
+function htmlLink(article: DigestArticle): string {
+  return `<a href="${escapeHtml(article.url)}">${escapeHtml(article.title)}</a>`;
+}
+
+/**
+ * 渲染为Markdown：概览、要点、主题分组和观点分歧，每条内容附原文链接
+ */
+export function renderDigestMarkdown(content: DigestContent): string {
+  const lines: string[] = [
+    `# ${content.title}`,
+    '',
+    `> ${describeRange(content)}`,
+    '',
+    '## 概览',
+    '',
+    content.overview,
+    '',
+    '## 核心要点',
+    ''
+  ];
+
+  content.takeaways.forEach((takeaway, index) => {
+    const links = findArticles(content, takeaway.articleIds).map(markdownLink).join('、');
+    lines.push(`${index + 1}. ${takeaway.point}${links ? `（${links}）` : ''}`);
+  });
+
+  lines.push('', '## 主题', '');
+  for (const theme of content.themes) {
+    lines.push(`### ${theme.title}`, '', theme.summary, '');
+    for (const article of findArticles(content, theme.articleIds)) {
+      lines.push(`- ${markdownLink(article)} — ${article.account}`);
+    }
+    lines.push('');
+  }
+
+  if (content.contradictions.length > 0) {
+    lines.push('## 观点分歧', '');
+    for (const contradiction of content.contradictions) {
+      lines.push(`### ${contradiction.topic}`, '', contradiction.description, '');
+      for (const article of findArticles(content, contradiction.articleIds)) {
+        lines.push(`- ${markdownLink(article)} — ${article.account}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * 渲染为独立的HTML页面，内容与Markdown版本一致
+ */
+export function renderDigestHtml(content: DigestContent): string {
+  const articleList = (articleIds: string[]) => {
+    const items = findArticles(content, articleIds)
+      .map(article => `<li>${htmlLink(article)} — ${escapeHtml(article.account)}</li>`)
+      .join('');
+    return items ? `<ul>${items}</ul>` : '';
+  };
+
+  const takeaways = content.takeaways.map(takeaway => {
+    const links = findArticles(content, takeaway.articleIds).map(htmlLink).join('、');
+    return `<li>${escapeHtml(takeaway.point)}${links ? `（${links}）` : ''}</li>`;
+  }).join('\n');
+
+  const themes = content.themes.map(theme =>
+    `<section><h3>${escapeHtml(theme.title)}</h3><p>${escapeHtml(theme.summary)}</p>${articleList(theme.articleIds)}</section>`
+  ).join('\n');
+
+  const contradictions = content.contradictions.length > 0
+    ? `<h2>观点分歧</h2>\n${content.contradictions.map(contradiction =>
+      `<section><h3>${escapeHtml(contradiction.topic)}</h3><p>${escapeHtml(contradiction.description)}</p>${articleList(contradiction.articleIds)}</section>`
+    ).join('\n')}`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(content.title)}</title>
+</head>
+<body>
+<h1>${escapeHtml(content.title)}</h1>
+<p><em>${escapeHtml(describeRange(content))}</em></p>
+<h2>概览</h2>
+<p>${escapeHtml(content.overview)}</p>
+<h2>核心要点</h2>
+<ol>
+${takeaways}
+</ol>
+<h2>主题</h2>
+${themes}
+${contradictions}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,160 @@
+import { ValidationResult } from './summarySchema';
+
+export const MAX_TAKEAWAYS = 10;
+
+// 模型输出中用文章编号（从1开始）引用输入的文章
+export interface DigestThemePayload {
+  title: string;
+  summary: string;
+  articles: number[];
+}
+
+export interface DigestTakeawayPayload {
+  point: string;
+  articles: number[];
+}
+
+export interface DigestContradictionPayload {
+  topic: string;
+  description: string;
+  articles: number[];
+}
+
+export interface ValidatedDigest {
+  overview: string;
+  themes: DigestThemePayload[];
+  takeaways: DigestTakeawayPayload[];
+  contradictions: DigestContradictionPayload[];
+}
+
+// 保存时把文章编号换成文章ID，并保存文章快照，文章删除后摘要中的链接仍然可用
+export interface DigestArticle {
+  id: string;
+  title: string;
+  url: string;
+  account: string;
+  publishDate: string | null;
+}
+
+export interface DigestContent {
+  title: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  createdAt: Date;
+  overview: string;
+  themes: Array<{ title: string; summary: string; articleIds: string[] }>;
+  takeaways: Array<{ point: string; articleIds: string[] }>;
+  contradictions: Array<{ topic: string; description: string; articleIds: string[] }>;
+  articles: DigestArticle[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * 校验文章编号列表，返回错误信息
+ */
+function checkReferences(value: unknown, articleCount: number, label: string, minCount: number): string | null {
+  if (!Array.isArray(value) || value.length < minCount) {
+    return `${label} 的 articles 必须是至少包含 ${minCount} 个文章编号的数组`;
+  }
+  if (value.some(ref => !Number.isInteger(ref) || ref < 1 || ref > articleCount)) {
+    return `${label} 的 articles 只能包含 1-${articleCount} 之间的文章编号`;
+  }
+  return null;
+}
+
+/**
+ * 校验对象数组，validateItem 返回每项的错误信息（null 表示该项检查通过）
+ */
+function validateList(
+  value: unknown,
+  name: string,
+  validateItem: (item: Record<string, unknown>, label: string) => Array<string | null>,
+  minLength: number,
+  maxLength?: number
+): string[] {
+  if (!Array.isArray(value)) {
+    return [`${name} 必须是数组`];
+  }
+
+  const errors: string[] = [];
+  if (value.length < minLength) {
+    errors.push(`${name} 至少需要 ${minLength} 项`);
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    errors.push(`${name} 最多 ${maxLength} 项，当前为 ${value.length} 项`);
+  }
+
+  value.forEach((item, index) => {
+    const label = `${name}[${index}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${label} 必须是对象`);
+      return;
+    }
+    errors.push(...validateItem(item as Record<string, unknown>, label).filter((error): error is string => !!error));
+  });
+
+  return errors;
+}
+
+/**
+ * 校验模型返回的摘要结构，返回全部不符合要求之处（中文描述，可直接用于修复提示）
+ */
+export function validateDigestPayload(payload: unknown, articleCount: number): ValidationResult<ValidatedDigest> {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { valid: false, errors: ['输出不是一个JSON对象'] };
+  }
+
+  const data = payload as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(data.overview)) {
+    errors.push('overview 必须是非空字符串');
+  }
+
+  errors.push(...validateList(data.themes, 'themes', (item, label) => [
+    isNonEmptyString(item.title) ? null : `${label}.title 必须是非空字符串`,
+    isNonEmptyString(item.summary) ? null : `${label}.summary 必须是非空字符串`,
+    checkReferences(item.articles, articleCount, label, 1)
+  ], 1));
+
+  errors.push(...validateList(data.takeaways, 'takeaways', (item, label) => [
+    isNonEmptyString(item.point) ? null : `${label}.point 必须是非空字符串`,
+    checkReferences(item.articles, articleCount, label, 1)
+  ], 1, MAX_TAKEAWAYS));
+
+  // 分歧必须涉及至少两篇文章
+  errors.push(...validateList(data.contradictions ?? [], 'contradictions', (item, label) => [
+    isNonEmptyString(item.topic) ? null : `${label}.topic 必须是非空字符串`,
+    isNonEmptyString(item.description) ? null : `${label}.description 必须是非空字符串`,
+    checkReferences(item.articles, articleCount, label, 2)
+  ], 0));
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const unique = (refs: unknown) => [...new Set(refs as number[])];
+  return {
+    valid: true,
+    value: {
+      overview: (data.overview as string).trim(),
+      themes: (data.themes as Record<string, unknown>[]).map(theme => ({
+        title: (theme.title as string).trim(),
+        summary: (theme.summary as string).trim(),
+        articles: unique(theme.articles)
+      })),
+      takeaways: (data.takeaways as Record<string, unknown>[]).map(takeaway => ({
+        point: (takeaway.point as string).trim(),
+        articles: unique(takeaway.articles)
+      })),
+      contradictions: ((data.contradictions ?? []) as Record<string, unknown>[]).map(contradiction => ({
+        topic: (contradiction.topic as string).trim(),
+        description: (contradiction.description as string).trim(),
+        articles: unique(contradiction.articles)
+      }))
+    }
+  };
+}
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { isBlockedAddressError } from './networkGuard';
+import { RetryExhaustedError } from './resilience';
+
+export const EXTRACTION_ERROR_CODES = ['DELETED', 'VIOLATION', 'CAPTCHA', 'EXPIRED', 'PAYWALLED', 'NETWORK', 'BLOCKED', 'PARSE'] as const;
+export type ExtractionErrorCode = typeof EXTRACTION_ERROR_CODES[number];
+
+/**
+ * 各类失败的中文说明，以及稍后重试是否可能成功
+ */
+export const EXTRACTION_ERRORS: Record<ExtractionErrorCode, { label: string; retryable: boolean }> = {
+  DELETED: { label: '文章已被发布者删除', retryable: false },
+  VIOLATION: { label: '文章因违规无法查看', retryable: false },
+  CAPTCHA: { label: '触发微信环境验证，请稍后再试', retryable: true },
+  EXPIRED: { label: '链接已过期', retryable: false },
+  PAYWALLED: { label: '付费文章，无法获取全文', retryable: false },
+  NETWORK: { label: '网络请求失败', retryable: true },
+  BLOCKED: { label: '不允许访问本机或内网地址', retryable: false },
+  PARSE: { label: '无法解析文章正文', retryable: false }
+};
+
+export class ExtractionError extends Error {
+  readonly retryable: boolean;
+
+  constructor(readonly code: ExtractionErrorCode, message: string = EXTRACTION_ERRORS[code].label) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.retryable = EXTRACTION_ERRORS[code].retryable;
+  }
+}
+
+// 微信提示页中的文字，按优先级排列；提示页的正文很短，只在提取不到文章正文时匹配
+const NOTICE_PATTERNS: Array<[ExtractionErrorCode, RegExp]> = [
+  ['CAPTCHA', /环境异常|完成验证后即可继续访问|去验证|请输入验证码|访问过于频繁/],
+  ['DELETED', /(已被|已由)发布者删除|该内容已被删除|内容已删除/],
+  ['VIOLATION', /因违规无法查看|违反(相关法律法规|了?.{0,10}规定)|被多人投诉|涉嫌.{0,20}已被?(屏蔽|停止访问)|已停止访问该网页/],
+  ['EXPIRED', /链接已(过期|失效)|该链接已失效|页面已过期|参数错误/]
+];
+
+const PAYWALL_PATTERN = /付费(后)?(即可)?阅读(全文|剩余)|本文为付费(内容|文章)|试读已结束/;
+
+const CAPTCHA_URL_PATTERN = /\/mp\/(wappoc_appmsgcaptcha|verify)|secitptpage/;
+
+/**
+ * 识别微信返回的提示页（删除、违规、验证、过期）和付费墙
+ * 只在文章正文之外查找提示文字，正文中提到这些字样不会被误判；bodyLength 为提取到的正文长度
+ */
+export function detectFailurePage(
+  $: cheerio.CheerioAPI,
+  bodyLength: number,
+  pageUrl?: string
+): ExtractionErrorCode | null {
+  if (pageUrl && CAPTCHA_URL_PATTERN.test(pageUrl)) {
+    return 'CAPTCHA';
+  }
+
+  const page = cheerio.load($.html());
+  page('script, style, noscript, #js_content').remove();
+  const outside = `${page('title').text()} ${page('body').text()}`.replace(/\s+/g, ' ');
+
+  if (PAYWALL_PATTERN.test(outside)) {
+    return 'PAYWALLED';
+  }
+
+  if (bodyLength >= 50) {
+    return null;
+  }
+
+  if ($('#js_verify, .weui-verify, #verify_container').length > 0) {
+    return 'CAPTCHA';
+  }
+
+  for (const [code, pattern] of NOTICE_PATTERNS) {
+    if (pattern.test(outside)) {
+      return code;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 将请求或解析过程中的异常归类为失败类型
+ */
+export function classifyExtractionError(error: unknown): ExtractionError {
+  if (error instanceof ExtractionError) {
+    return error;
+  }
+
+  const cause = error instanceof RetryExhaustedError ? error.cause : error;
+  if (isBlockedAddressError(cause)) {
+    return new ExtractionError('BLOCKED');
+  }
+  if (axios.isAxiosError(cause) || (cause instanceof Error && /timeout|ECONN|ENOTFOUND|EAI_AGAIN|socket/i.test(cause.message))) {
+    return new ExtractionError('NETWORK', `${EXTRACTION_ERRORS.NETWORK.label}: ${cause instanceof Error ? cause.message : String(cause)}`);
+  }
+
+  return new ExtractionError('PARSE', error instanceof Error ? error.message : EXTRACTION_ERRORS.PARSE.label);
+}
@@ -0,0 +1,145 @@
+import { escapeHtml } from './html';
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string; // 原文链接
+  author: string | null;
+  published: Date;
+  updated: Date; // 总结的更新时间，重新总结后阅读器会刷新条目
+  summary: string;
+  keyPoints: string[];
+  category: string | null;
+  sentiment: string | null;
+}
+
+export interface Feed {
+  id: string; // 订阅的固定标识，不含访问令牌
+  title: string;
+  description: string;
+  link: string; // 站点首页
+  selfUrl: string; // 订阅地址
+  updated: Date;
+  items: FeedItem[];
+}
+
+// XML 1.0 不允许的控制字符，部分网页正文和模型输出中会出现
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(text: string): string {
+  return escapeHtml(text.replace(INVALID_XML_CHARS, ''));
+}
+
+const SENTIMENT_LABELS: Record<string, string> = {
+  positive: '正面',
+  negative: '负面',
+  neutral: '中性'
+};
+
+/**
+ * 条目正文HTML：总结分段，关键点为列表
+ */
+function itemHtml(item: FeedItem): string {
+  const paragraphs = item.summary
+    .split(/\n+/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `<p>${escapeHtml(line)}</p>`);
+
+  if (item.keyPoints.length > 0) {
+    paragraphs.push(
+      '<h4>关键点</h4>',
+      `<ul>${item.keyPoints.map(point => `<li>${escapeHtml(point)}</li>`).join('')}</ul>`
+    );
+  }
+  paragraphs.push(`<p><a href="${escapeHtml(item.url)}">阅读原文</a></p>`);
+  return paragraphs.join('\n');
+}
+
+/**
+ * 分类和情感作为条目标签，情感标签带 sentiment 前缀与分类区分
+ */
+function itemTags(item: FeedItem): Array<{ term: string; label: string; domain?: string }> {
+  const tags: Array<{ term: string; label: string; domain?: string }> = [];
+  if (item.category) {
+    tags.push({ term: item.category, label: item.category });
+  }
+  if (item.sentiment) {
+    tags.push({
+      term: `sentiment:${item.sentiment}`,
+      label: SENTIMENT_LABELS[item.sentiment] ?? item.sentiment,
+      domain: 'sentiment'
+    });
+  }
+  return tags;
+}
+
+/**
+ * 渲染为 RSS 2.0
+ */
+export function renderRss(feed: Feed): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(feed.link)}</link>`,
+    `<description>${escapeXml(feed.description)}</description>`,
+    '<language>zh-cn</language>',
+    `<lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `<atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`
+  ];
+
+  for (const item of feed.items) {
+    lines.push(
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      ...(item.author ? [`<dc:creator>${escapeXml(item.author)}</dc:creator>`] : []),
+      ...itemTags(item).map(tag => `<category${tag.domain ? ` domain="${tag.domain}"` : ''}>${escapeXml(tag.term)}</category>`),
+      `<description>${escapeXml(itemHtml(item))}</description>`,
+      '</item>'
+    );
+  }
+
+  lines.push('</channel>', '</rss>');
+  return lines.join('\n');
+}
+
+/**
+ * 渲染为 Atom 1.0
+ */
+export function renderAtom(feed: Feed): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="zh-CN">',
+    `<id>${escapeXml(feed.id)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `<updated>${feed.updated.toISOString()}</updated>`,
+    // 没有作者的条目沿用订阅的作者，Atom 要求每个条目都有作者
+    `<author><name>${escapeXml(feed.title)}</name></author>`,
+    `<link href="${escapeXml(feed.link)}"/>`,
+    `<link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/atom+xml"/>`
+  ];
+
+  for (const item of feed.items) {
+    lines.push(
+      '<entry>',
+      `<id>${escapeXml(item.id)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link href="${escapeXml(item.url)}"/>`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      ...(item.author ? [`<author><name>${escapeXml(item.author)}</name></author>`] : []),
+      ...itemTags(item).map(tag => `<category term="${escapeXml(tag.term)}" label="${escapeXml(tag.label)}"/>`),
+      `<content type="html">${escapeXml(itemHtml(item))}</content>`,
+      '</entry>'
+    );
+  }
+
+  lines.push('</feed>');
+  return lines.join('\n');
+}
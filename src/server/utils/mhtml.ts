@@ -0,0 +1,106 @@
+export interface MhtmlDocument {
+  html: string;
+  url?: string; // 保存页面时的地址
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * 解析头部，续行（以空白开头）合并到上一行，头部名称统一为小写
+ */
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let last: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    if (/^\s/.test(line) && last) {
+      headers[last] += ` ${line.trim()}`;
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      last = line.slice(0, separator).trim().toLowerCase();
+      headers[last] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+function splitHead(text: string): [string, string] {
+  const match = text.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return [text, ''];
+  }
+  return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+}
+
+function headerParam(value: string | undefined, name: string): string | undefined {
+  return value?.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'))?.slice(1).find(Boolean);
+}
+
+function decodeQuotedPrintable(body: string): Buffer {
+  const joined = body.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < joined.length; i++) {
+    const hex = joined.slice(i + 1, i + 3);
+    if (joined[i] === '=' && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(joined.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  const data = encoding === 'base64'
+    ? Buffer.from(part.body.replace(/\s+/g, ''), 'base64')
+    : encoding === 'quoted-printable'
+      ? decodeQuotedPrintable(part.body)
+      : Buffer.from(part.body, 'latin1');
+
+  const charset = headerParam(part.headers['content-type'], 'charset') || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(data);
+  } catch {
+    return data.toString('utf8');
+  }
+}
+
+/**
+ * 从浏览器“另存为单个文件”保存的 MHTML 中取出页面HTML
+ * 内容需以 latin1 读入，保留原始字节，由各部分声明的编码解码
+ */
+export function extractHtmlFromMhtml(raw: string): MhtmlDocument | null {
+  const [head, rest] = splitHead(raw);
+  const headers = parseHeaders(head);
+  const boundary = headerParam(headers['content-type'], 'boundary');
+  if (!boundary) {
+    return null;
+  }
+
+  const parts: MimePart[] = rest
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter(chunk => !chunk.startsWith('--'))
+    .map(chunk => {
+      const [partHead, body] = splitHead(chunk.replace(/^\r?\n/, ''));
+      return { headers: parseHeaders(partHead), body };
+    });
+
+  const page = parts.find(part => /^text\/html/i.test(part.headers['content-type'] || ''));
+  if (!page) {
+    return null;
+  }
+
+  return {
+    html: decodeBody(page),
+    url: page.headers['content-location'] || headers['snapshot-content-location'] || undefined
+  };
+}
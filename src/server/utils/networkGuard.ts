@@ -0,0 +1,143 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { AxiosRequestConfig } from 'axios';
+
+const BLOCKED_ADDRESS_CODE = 'EBLOCKEDADDRESS';
+
+// 本机、内网、链路本地（含云服务器元数据地址 169.254.169.254）、组播和保留地址
+const blockList = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  blockList.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  blockList.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * 目标地址是本机或内网时抛出，请求不会发出
+ */
+export class BlockedAddressError extends Error {
+  readonly code = BLOCKED_ADDRESS_CODE;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+// IPv4 映射的 IPv6 地址，URL 解析后写作 ::ffff:7f00:1
+const MAPPED_IPV4_PATTERN = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i;
+
+/**
+ * 是否为本机、内网或保留地址；不是IP时返回false
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  if (family === 4) {
+    return blockList.check(address, 'ipv4');
+  }
+
+  const mapped = address.match(MAPPED_IPV4_PATTERN);
+  if (mapped) {
+    const ipv4 = mapped[1] ?? [mapped[2], mapped[3]]
+      .map(part => parseInt(part, 16))
+      .flatMap(value => [value >> 8, value & 0xff])
+      .join('.');
+    return blockList.check(ipv4, 'ipv4');
+  }
+  return blockList.check(address, 'ipv6');
+}
+
+/**
+ * 检查链接的协议和主机；主机是IP时直接判断，域名在建立连接时由 guardedLookup 判断
+ */
+export function assertPublicUrl(input: string): void {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new BlockedAddressError(`无效的链接: ${input}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BlockedAddressError(`只允许访问 http(s) 链接: ${input}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateAddress(host)) {
+    throw new BlockedAddressError(`不允许访问本机或内网地址: ${host}`);
+  }
+}
+
+/**
+ * 解析域名后检查全部地址，解析到内网地址时拒绝连接
+ * 在连接时检查，跳转后的新地址和解析结果在检查后变化的情况同样会被拦截
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      return callback(error, address, family);
+    }
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) {
+      return callback(new BlockedAddressError(`不允许访问本机或内网地址: ${hostname} (${blocked})`), address, family);
+    }
+    callback(null, address, family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+/**
+ * 请求用户提供的链接时使用的 axios 配置：每次连接和每次跳转都检查目标地址
+ */
+export const publicRequestConfig: Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent' | 'beforeRedirect'> = {
+  httpAgent,
+  httpsAgent,
+  // IP形式的主机不经过DNS解析，跳转时单独检查；跳转库给出的IPv6主机不带方括号
+  beforeRedirect: options => {
+    const host = String(options.hostname);
+    assertPublicUrl(`${options.protocol}//${host.includes(':') ? `[${host}]` : host}`);
+  }
+};
+
+/**
+ * 异步检查链接，域名也会先解析；用于无法替换DNS解析的场景（如无头浏览器）
+ */
+export async function isPublicUrl(input: string): Promise<boolean> {
+  try {
+    assertPublicUrl(input);
+    const { hostname } = new URL(input);
+    if (net.isIP(hostname.replace(/^\[|\]$/g, ''))) {
+      return true;
+    }
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    return addresses.every(entry => !isPrivateAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 错误（含 axios 和跳转库包装后的错误）是否由地址检查引起
+ */
+export function isBlockedAddressError(error: unknown): boolean {
+  let current = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof BlockedAddressError || (current as { code?: unknown }).code === BLOCKED_ADDRESS_CODE) {
+      return true;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// 全局共享的Prisma客户端，路由与后台任务共用同一个SQLite连接池
+export const prisma = new PrismaClient();
@@ -0,0 +1,52 @@
+// 提示词模板中可用的变量，以 {{name}} 形式引用
+export const PROMPT_VARIABLES = ['title', 'content', 'account', 'language', 'format'] as const;
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+/**
+ * 找出模板中引用的全部变量（去重，按出现顺序）
+ */
+export function findTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * 校验模板：只能引用已知变量，且用户提示词必须包含正文
+ */
+export function validatePromptTemplate(systemPrompt: string, userPrompt: string): string[] {
+  const errors: string[] = [];
+
+  if (!systemPrompt?.trim()) {
+    errors.push('systemPrompt 不能为空');
+  }
+  if (!userPrompt?.trim()) {
+    errors.push('userPrompt 不能为空');
+  }
+
+  const used = findTemplateVariables(`${systemPrompt || ''}\n${userPrompt || ''}`);
+  const unknown = used.filter(name => !PROMPT_VARIABLES.includes(name as PromptVariable));
+  if (unknown.length > 0) {
+    errors.push(`未知变量: ${unknown.join(', ')}，可用变量: ${PROMPT_VARIABLES.join(', ')}`);
+  }
+
+  if (userPrompt && !findTemplateVariables(userPrompt).includes('content')) {
+    errors.push('userPrompt 必须包含 {{content}}');
+  }
+
+  return errors;
+}
+
+/**
+ * 用变量值替换模板中的占位符；值中的 {{...}} 不会被再次替换
+ */
+export function renderTemplate(template: string, variables: Partial<Record<PromptVariable, string>>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = variables[name as PromptVariable];
+    return value === undefined ? placeholder : value;
+  });
+}
@@ -0,0 +1,193 @@
+import * as cheerio from 'cheerio';
+import { AnyNode, Element } from 'domhandler';
+
+// 与正文无关的元素，评分前整体移除
+const REMOVED_ELEMENTS = 'script, style, noscript, template, form, nav, footer, aside, button, input, select, textarea, svg, canvas, [hidden], [aria-hidden="true"]';
+
+// 类名或ID中出现这些词的元素大多是导航、评论、推荐等，除非同时带有正文特征
+const UNLIKELY_PATTERN = /comment|footer|header|nav|menu|sidebar|sponsor|advert|\bads?\b|banner|share|social|related|recommend|popup|modal|cookie|subscribe|breadcrumb|pagination|copyright|login|toolbar/i;
+const LIKELY_PATTERN = /article|body|content|entry|main|post|story|text|rich|detail|column/i;
+
+// 参与评分的段落元素
+const PARAGRAPH_SELECTOR = 'p, pre, blockquote, li, td, h2, h3';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+function classWeight(node: Element): number {
+  const names = `${node.attribs.class ?? ''} ${node.attribs.id ?? ''}`;
+  let weight = 0;
+  if (LIKELY_PATTERN.test(names)) weight += 25;
+  if (UNLIKELY_PATTERN.test(names)) weight -= 25;
+  return weight;
+}
+
+function tagWeight(node: Element): number {
+  switch (node.name) {
+    case 'article': return 10;
+    case 'main':
+    case 'section':
+    case 'div': return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote': return 3;
+    case 'ol':
+    case 'ul':
+    case 'dl': return -3;
+    default: return /^h[1-6]$/.test(node.name) ? -5 : 0;
+  }
+}
+
+/**
+ * 链接文字占比，导航和推荐列表的链接占比很高
+ */
+function linkDensity($: cheerio.CheerioAPI, node: Element): number {
+  const length = $(node).text().trim().length;
+  if (length === 0) {
+    return 0;
+  }
+  const linkLength = $(node).find('a').toArray().reduce((sum, link) => sum + $(link).text().trim().length, 0);
+  return linkLength / length;
+}
+
+/**
+ * 移除明显不属于正文的元素，图片和链接地址改为绝对地址
+ */
+export function prepareDocument($: cheerio.CheerioAPI, pageUrl?: string): void {
+  $(REMOVED_ELEMENTS).remove();
+
+  $('[class], [id]').each((_, node) => {
+    if (node.type !== 'tag' || ['html', 'body', 'article', 'main'].includes(node.name)) {
+      return;
+    }
+    const names = `${node.attribs.class ?? ''} ${node.attribs.id ?? ''}`;
+    if (UNLIKELY_PATTERN.test(names) && !LIKELY_PATTERN.test(names)) {
+      $(node).remove();
+    }
+  });
+
+  if (!pageUrl) {
+    return;
+  }
+  for (const [selector, attributes] of [['img', ['src', 'data-src', 'data-original']], ['a', ['href']]] as const) {
+    $(selector).each((_, node) => {
+      for (const attribute of attributes) {
+        const value = $(node).attr(attribute);
+        if (value && !/^(data|javascript|mailto):/i.test(value)) {
+          try {
+            $(node).attr(attribute, new URL(value, pageUrl).toString());
+          } catch {
+            // 无法解析的地址保持原样
+          }
+        }
+      }
+    });
+  }
+}
+
+/**
+ * 按段落文字长度、逗号数量和链接占比给容器打分，返回得分最高的正文容器
+ * 需先调用 prepareDocument
+ */
+export function findMainContent($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> | null {
+  const scores = new Map<Element, number>();
+  const addScore = (node: AnyNode | null, score: number) => {
+    if (!node || node.type !== 'tag' || node.name === 'html') {
+      return;
+    }
+    const element = node as Element;
+    if (!scores.has(element)) {
+      scores.set(element, tagWeight(element) + classWeight(element));
+    }
+    scores.set(element, scores.get(element)! + score);
+  };
+
+  $(PARAGRAPH_SELECTOR).each((_, node) => {
+    const text = $(node).text().trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    const score = 1 + (text.match(/[,，、。]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    addScore(node.parent, score);
+    addScore(node.parent?.parent ?? null, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [node, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, node));
+    if (adjusted > bestScore) {
+      best = node;
+      bestScore = adjusted;
+    }
+  }
+
+  if (best) {
+    return $(best);
+  }
+
+  // 没有足够长的段落时，退回语义化容器
+  const fallback = $('article, main, [role="main"]').first();
+  return fallback.length > 0 ? fallback : null;
+}
+
+interface StructuredArticle {
+  headline?: string;
+  author?: string;
+  datePublished?: string;
+  image?: string;
+  publisher?: string;
+}
+
+function nameOf(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === 'string') return first;
+  if (first && typeof first === 'object' && typeof (first as { name?: unknown }).name === 'string') {
+    return (first as { name: string }).name;
+  }
+  return undefined;
+}
+
+function urlOf(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === 'string') return first;
+  if (first && typeof first === 'object' && typeof (first as { url?: unknown }).url === 'string') {
+    return (first as { url: string }).url;
+  }
+  return undefined;
+}
+
+/**
+ * 读取页面中 JSON-LD 格式的文章信息（Article、NewsArticle、BlogPosting 等）
+ */
+export function readStructuredArticle($: cheerio.CheerioAPI): StructuredArticle | null {
+  const nodes: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_, node) => {
+    try {
+      const data = JSON.parse($(node).html() ?? '');
+      nodes.push(...(Array.isArray(data) ? data : [data]));
+    } catch {
+      // 格式错误的结构化数据直接忽略
+    }
+  });
+
+  const candidates = nodes.flatMap(node => {
+    const graph = (node as { '@graph'?: unknown })?.['@graph'];
+    return Array.isArray(graph) ? [node, ...graph] : [node];
+  });
+  const article = candidates.find(node => {
+    const type = (node as { '@type'?: unknown })?.['@type'];
+    return [type].flat().some(name => typeof name === 'string' && /Article|Posting|Report/.test(name));
+  }) as Record<string, unknown> | undefined;
+
+  if (!article) {
+    return null;
+  }
+  return {
+    headline: typeof article.headline === 'string' ? article.headline : undefined,
+    author: nameOf(article.author),
+    datePublished: typeof article.datePublished === 'string' ? article.datePublished : undefined,
+    image: urlOf(article.image),
+    publisher: nameOf(article.publisher)
+  };
+}
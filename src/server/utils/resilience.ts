@@ -0,0 +1,241 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+// 网络层面的临时错误，重试通常可以恢复
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'ERR_NETWORK'
+]);
+
+// 限流、超时与服务端错误
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export interface RetryOptions {
+  label: string; // 用于日志
+  retries: number; // 首次调用之外的最大重试次数
+  baseDelay?: number;
+  maxDelay?: number;
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export interface RetryResult<T> {
+  value: T;
+  attempts: number;
+}
+
+/**
+ * 重试用尽或遇到不可重试错误时抛出，保留原始错误和已尝试次数
+ */
+export class RetryExhaustedError extends Error {
+  constructor(readonly cause: unknown, readonly attempts: number) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+/**
+ * 熔断器处于打开状态时抛出，调用方应直接失败而不是等待
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly circuit: string, readonly retryAt: Date) {
+    super(`${circuit} 服务暂时不可用（熔断中），将于 ${retryAt.toLocaleTimeString('zh-CN')} 后重试`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * 判断错误是否值得重试：网络错误、超时、429与5xx
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return RETRYABLE_STATUS_CODES.has(error.response.status);
+    }
+    return !error.code || RETRYABLE_ERROR_CODES.has(error.code);
+  }
+
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return Boolean(code && RETRYABLE_ERROR_CODES.has(code));
+}
+
+/**
+ * 判断错误是否说明服务本身不可用（用于熔断计数）
+ * 请求参数错误等个别文章的问题不计入，网络故障、限流、5xx和鉴权失败计入
+ */
+export function isServiceFailure(error: unknown): boolean {
+  const cause = error instanceof RetryExhaustedError ? error.cause : error;
+
+  if (axios.isAxiosError(cause) && cause.response) {
+    const status = cause.response.status;
+    return status === 401 || status === 403 || RETRYABLE_STATUS_CODES.has(status);
+  }
+  return isRetryableError(cause);
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或HTTP日期），返回毫秒
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return undefined;
+  }
+
+  const header = error.response.headers?.['retry-after'];
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 指数退避 + 全抖动
+ */
+export function backoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * 执行函数，遇到可重试错误时按退避策略重试
+ * 服务端给出 Retry-After 时优先使用（不超过 maxDelay）
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<RetryResult<T>> {
+  const {
+    label,
+    retries,
+    baseDelay = 1000,
+    maxDelay = 30000,
+    isRetryable = isRetryableError
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const value = await fn(attempt + 1);
+      return { value, attempts: attempt + 1 };
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw new RetryExhaustedError(error, attempt + 1);
+      }
+
+      const retryAfter = getRetryAfterMs(error);
+      const delay = retryAfter !== undefined
+        ? Math.min(retryAfter, maxDelay)
+        : backoffDelay(attempt, baseDelay, maxDelay);
+
+      logger.warn(`${label} 第 ${attempt + 1} 次调用失败，${delay}ms 后重试: ${error instanceof Error ? error.message : error}`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // 连续失败多少次后打开
+  resetTimeout: number; // 打开后多久允许一次试探请求
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 熔断器：连续失败达到阈值后打开，在冷却期内直接拒绝调用；
+ * 冷却结束后只放行一次试探请求，试探完成前其余调用仍被拒绝，试探成功则关闭，失败则重新打开
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(readonly name: string, private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * 冷却中或试探请求尚未完成时返回true，此时调用会被拒绝
+   */
+  isOpen(): boolean {
+    return (this.state === 'open' && Date.now() - this.openedAt < this.options.resetTimeout) || this.probing;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const isProbe = this.state !== 'closed';
+    if (isProbe) {
+      if (this.isOpen()) {
+        const retryAt = Math.max(this.openedAt + this.options.resetTimeout, Date.now());
+        throw new CircuitOpenError(this.name, new Date(retryAt));
+      }
+      this.state = 'half-open';
+      this.probing = true;
+      logger.info(`熔断器 ${this.name} 进入半开状态，放行试探请求`);
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isServiceFailure(error)) {
+        this.onFailure();
+      } else if (isProbe) {
+        // 试探请求因个别请求的问题失败，说明服务本身可用
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isProbe) {
+        this.probing = false;
+      }
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`熔断器 ${this.name} 已恢复`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  private onFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.warn(`熔断器 ${this.name} 已打开，连续失败 ${this.failures} 次`);
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * 按名称获取共享的熔断器实例
+ */
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, {
+      failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5'),
+      resetTimeout: parseInt(process.env.LLM_CIRCUIT_RESET_MS || '60000')
+    });
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
@@ -0,0 +1,225 @@
+export const SENTIMENTS = ['positive', 'negative', 'neutral'] as const;
+export type Sentiment = typeof SENTIMENTS[number];
+
+export const MIN_KEY_POINTS = 3;
+export const MAX_KEY_POINTS = 5;
+
+// 自定义提取字段支持的类型
+export const FIELD_TYPES = ['string', 'number', 'boolean', 'date', 'string[]', 'number[]'] as const;
+export type FieldType = typeof FIELD_TYPES[number];
+
+export const MAX_EXTRACTION_FIELDS = 20;
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ExtractionField {
+  name: string;
+  type: FieldType;
+  description: string;
+  required?: boolean; // 必填字段不能为null
+}
+
+export type FieldValue = string | number | boolean | string[] | number[] | null;
+export type ExtractedFields = Record<string, FieldValue>;
+
+export interface ValidatedSummary {
+  summary: string;
+  keyPoints: string[];
+  sentiment: Sentiment;
+  category: string;
+  fields?: ExtractedFields;
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+/**
+ * 从模型输出中取出JSON对象：依次尝试整体解析、去掉代码块标记后解析、截取第一个 {...} 片段解析
+ */
+export function extractJsonObject(text: string): unknown {
+  const candidates = [
+    text.trim(),
+    text.replace(/^[\s\S]*?```(?:json)?\s*/i, '').replace(/\s*```[\s\S]*$/, '').trim()
+  ];
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(text.substring(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // 继续尝试下一种方式
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 校验用户定义的提取字段列表
+ */
+export function validateFieldDefinitions(payload: unknown): ValidationResult<ExtractionField[]> {
+  if (!Array.isArray(payload) || payload.length === 0) {
+    return { valid: false, errors: ['fields 必须是非空数组'] };
+  }
+  if (payload.length > MAX_EXTRACTION_FIELDS) {
+    return { valid: false, errors: [`最多定义 ${MAX_EXTRACTION_FIELDS} 个字段`] };
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+  const fields: ExtractionField[] = [];
+
+  payload.forEach((item, index) => {
+    const field = (item ?? {}) as Record<string, unknown>;
+    const label = `第 ${index + 1} 个字段`;
+
+    if (typeof field.name !== 'string' || !FIELD_NAME_PATTERN.test(field.name)) {
+      errors.push(`${label}的 name 只能包含字母、数字和下划线，且不能以数字开头`);
+    } else if (names.has(field.name)) {
+      errors.push(`字段名 ${field.name} 重复`);
+    } else {
+      names.add(field.name);
+    }
+
+    if (typeof field.type !== 'string' || !FIELD_TYPES.includes(field.type as FieldType)) {
+      errors.push(`${label}的 type 必须是 ${FIELD_TYPES.join('、')} 之一`);
+    }
+
+    if (typeof field.description !== 'string' || !field.description.trim()) {
+      errors.push(`${label}的 description 不能为空`);
+    }
+
+    fields.push({
+      name: field.name as string,
+      type: field.type as FieldType,
+      description: typeof field.description === 'string' ? field.description.trim() : '',
+      required: field.required === true
+    });
+  });
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: fields };
+}
+
+function checkFieldValue(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'number[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item));
+  }
+}
+
+/**
+ * 按字段定义校验模型提取的字段，未定义的多余字段会被丢弃
+ */
+export function validateExtractedFields(
+  payload: unknown,
+  fields: ExtractionField[]
+): ValidationResult<ExtractedFields> {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { valid: false, errors: ['fields 必须是一个JSON对象'] };
+  }
+
+  const data = payload as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: ExtractedFields = {};
+
+  for (const field of fields) {
+    const fieldValue = data[field.name];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (field.required) {
+        errors.push(`fields.${field.name} 为必填字段`);
+      }
+      value[field.name] = null;
+      continue;
+    }
+
+    if (!checkFieldValue(fieldValue, field.type)) {
+      errors.push(`fields.${field.name} 必须是 ${field.type} 类型` + (field.type === 'date' ? '（格式 YYYY-MM-DD）' : ''));
+      continue;
+    }
+
+    value[field.name] = fieldValue as FieldValue;
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value };
+}
+
+/**
+ * 校验模型返回的总结结构，返回全部不符合要求之处（中文描述，可直接用于修复提示）
+ * 传入字段定义时同时校验 fields 对象
+ */
+export function validateSummaryPayload(
+  payload: unknown,
+  fields: ExtractionField[] = []
+): ValidationResult<ValidatedSummary> {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { valid: false, errors: ['输出不是一个JSON对象'] };
+  }
+
+  const data = payload as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof data.summary !== 'string' || !data.summary.trim()) {
+    errors.push('summary 必须是非空字符串');
+  }
+
+  if (!Array.isArray(data.keyPoints)) {
+    errors.push('keyPoints 必须是字符串数组');
+  } else {
+    if (data.keyPoints.some(point => typeof point !== 'string' || !point.trim())) {
+      errors.push('keyPoints 的每一项都必须是非空字符串');
+    }
+    if (data.keyPoints.length < MIN_KEY_POINTS || data.keyPoints.length > MAX_KEY_POINTS) {
+      errors.push(`keyPoints 必须包含 ${MIN_KEY_POINTS}-${MAX_KEY_POINTS} 个要点，当前为 ${data.keyPoints.length} 个`);
+    }
+  }
+
+  if (typeof data.sentiment !== 'string' || !SENTIMENTS.includes(data.sentiment as Sentiment)) {
+    errors.push(`sentiment 必须是 ${SENTIMENTS.join('、')} 之一`);
+  }
+
+  if (typeof data.category !== 'string' || !data.category.trim()) {
+    errors.push('category 必须是非空字符串');
+  }
+
+  let extracted: ExtractedFields | undefined;
+  if (fields.length > 0) {
+    const fieldValidation = validateExtractedFields(data.fields, fields);
+    if (fieldValidation.valid) {
+      extracted = fieldValidation.value;
+    } else {
+      errors.push(...fieldValidation.errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      summary: (data.summary as string).trim(),
+      keyPoints: (data.keyPoints as string[]).map(point => point.trim()),
+      sentiment: data.sentiment as Sentiment,
+      category: (data.category as string).trim(),
+      ...(extracted && { fields: extracted })
+    }
+  };
+}
@@ -0,0 +1,102 @@
+// 中日韩字符（含全角标点）大致按一个token计，其余字符约4个一个token
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+const CJK_CHAR = new RegExp(CJK_PATTERN.source);
+
+// 句末标点之后切分；英文句号只在其后是空白或文本结尾时算句末，小数点、缩写中的点不切分
+const SENTENCE_PATTERN = /(?:[^\u3002\uff01\uff1f!?\uff1b;\n.]|\.(?!\s|$))*(?:[\u3002\uff01\uff1f!?\uff1b;]|\.(?=\s|$))+|(?:[^\u3002\uff01\uff1f!?\uff1b;\n.]|\.(?!\s|$))+/g;
+
+/**
+ * 粗略估算文本的token数量，用于分块而非计费
+ */
+export function estimateTokens(text: string): number {
+  const cjkCount = (text.match(CJK_PATTERN) || []).length;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/**
+ * 按token上限将文本切分为多个块
+ * 优先在段落边界切分，段落过长时按句子切分，单句仍过长时按字符硬切
+ */
+export function chunkText(text: string, maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+    currentTokens = 0;
+  };
+
+  const append = (piece: string, separator: string) => {
+    if (current && currentTokens + estimateTokens(separator + piece) > maxTokens) {
+      flush();
+    }
+    const joined = (current ? separator : '') + piece;
+    current += joined;
+    currentTokens += estimateTokens(joined);
+  };
+
+  for (const paragraph of splitParagraphs(text)) {
+    if (estimateTokens(paragraph) <= maxTokens) {
+      append(paragraph, '\n\n');
+      continue;
+    }
+
+    for (const sentence of paragraph.match(SENTENCE_PATTERN) || [paragraph]) {
+      if (estimateTokens(sentence) <= maxTokens) {
+        append(sentence, '');
+        continue;
+      }
+
+      for (const piece of hardSplit(sentence, maxTokens)) {
+        append(piece, '');
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n|\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+/**
+ * 按字符硬切，逐字累计中日韩字符和其他字符的数量，与 estimateTokens 的估算一致
+ */
+function hardSplit(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  let cjkCount = 0;
+  let otherCount = 0;
+
+  for (const char of text) {
+    const isCjk = CJK_CHAR.test(char);
+    const tokens = cjkCount + (isCjk ? 1 : 0) + Math.ceil((otherCount + (isCjk ? 0 : char.length)) / 4);
+    if (piece && tokens > maxTokens) {
+      pieces.push(piece);
+      piece = '';
+      cjkCount = 0;
+      otherCount = 0;
+    }
+    piece += char;
+    if (isCjk) {
+      cjkCount++;
+    } else {
+      otherCount += char.length;
+    }
+  }
+
+  if (piece) {
+    pieces.push(piece);
+  }
+  return pieces;
+}
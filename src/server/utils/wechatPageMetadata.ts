@@ -0,0 +1,137 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * 文章页内联脚本中的变量，静态HTML中即可读取，比页面上由脚本填充的元素可靠
+ */
+export interface WeChatPageMetadata {
+  publishTime?: Date; // ct：发布时间戳
+  nickname?: string; // 公众号名称
+  userName?: string; // 公众号原始ID，gh_ 开头
+  biz?: string; // __biz 标识
+  description?: string; // msg_desc：文章摘要
+  coverUrl?: string; // msg_cdn_url
+  headImageUrl?: string; // 公众号头像
+  copyrightStat?: number; // 版权状态，11 为原创
+  isOriginal?: boolean;
+  author?: string; // 文章作者，原创文章由发布者填写
+  sourceNickname?: string; // 转载文章的原公众号
+  sourceUrl?: string; // 阅读原文链接
+}
+
+/**
+ * 账户上记录的公众号身份
+ */
+export type WeChatAccountMetadata = Pick<WeChatPageMetadata, 'biz' | 'userName' | 'nickname' | 'headImageUrl'>;
+
+// 每个字段可能使用的变量名，按优先级排列
+const VARIABLES = {
+  publishTime: ['ct', 'create_time'],
+  nickname: ['nickname', 'nick_name'],
+  userName: ['user_name', 'username'],
+  biz: ['biz', '__biz'],
+  description: ['msg_desc'],
+  coverUrl: ['msg_cdn_url'],
+  headImageUrl: ['round_head_img', 'hd_head_img', 'ori_head_img_url'],
+  copyrightStat: ['copyright_stat', '_copyright_stat'],
+  author: ['author', '_author'],
+  sourceNickname: ['source_nickname'],
+  sourceUrl: ['msg_source_url', 'source_url']
+} as const;
+
+const ORIGINAL_COPYRIGHT_STATS = new Set([1, 11]);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 还原JS字符串中的转义和 htmlDecode 处理的实体
+ */
+function decodeValue(raw: string): string {
+  const unescaped = raw
+    .replace(/\\x([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\u([0-9a-f]{4})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\n/g, '\n')
+    .replace(/\\(.)/g, '$1');
+  return cheerio.load(`<p>${unescaped.replace(/</g, '&lt;')}</p>`)('p').text().trim();
+}
+
+/**
+ * 读取形如 var ct = "1700000000" * 1、var biz = "" || "MzA..."、window.nickname = htmlDecode("...") 的变量
+ * 取第一个非空的字符串或数字
+ */
+function readVariable(script: string, names: readonly string[]): string | undefined {
+  const literal = String.raw`(?:htmlDecode\(|JsDecode\()?\s*(?:"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'|(\d+))\s*\)?`;
+  for (const name of names) {
+    const pattern = new RegExp(
+      String.raw`(?:\bvar\s+|\bwindow\.|[;{\s])${escapeRegExp(name)}\s*=(?!=)\s*${literal}(?:\s*\|\|\s*${literal})?`,
+      'g'
+    );
+    for (const match of script.matchAll(pattern)) {
+      const value = match.slice(1).find(group => group !== undefined && group.trim() !== '');
+      if (value !== undefined) {
+        const decoded = decodeValue(value);
+        if (decoded) {
+          return decoded;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function toHttps(url: string | undefined): string | undefined {
+  return url && /^https?:\/\//i.test(url) ? url.replace(/^http:/i, 'https:') : undefined;
+}
+
+/**
+ * 从文章页内联脚本中解析发布时间、公众号身份、摘要、版权等信息
+ * 脚本中缺失的字段依次使用 meta 标签和页面元素补充
+ */
+export function parseWeChatPageMetadata($: cheerio.CheerioAPI): WeChatPageMetadata {
+  const script = $('script:not([src])')
+    .map((_, node) => $(node).html() ?? '')
+    .get()
+    .join('\n');
+  const read = (field: keyof typeof VARIABLES) => readVariable(script, VARIABLES[field]);
+
+  const timestamp = Number(read('publishTime'));
+  const copyrightStat = read('copyrightStat');
+  const bizFromUrl = ($('meta[property="og:url"]').attr('content') || '').match(/[?&]__biz=([^&#]+)/)?.[1];
+
+  const metadata: WeChatPageMetadata = {
+    publishTime: timestamp > 0 ? new Date(timestamp * 1000) : undefined,
+    nickname: read('nickname') || $('#js_name').first().text().trim() || undefined,
+    userName: read('userName') || $('.profile_meta_value').first().text().trim().match(/^gh_\w+$/)?.[0],
+    biz: read('biz') || (bizFromUrl && decodeURIComponent(bizFromUrl)),
+    description: read('description') || $('meta[name="description"]').attr('content')?.trim() || undefined,
+    coverUrl: toHttps(read('coverUrl') || $('meta[property="og:image"]').attr('content')?.trim()),
+    headImageUrl: toHttps(read('headImageUrl')),
+    copyrightStat: copyrightStat && /^\d+$/.test(copyrightStat) ? Number(copyrightStat) : undefined,
+    author: read('author') || $('meta[name="author"]').attr('content')?.trim() || $('#js_author_name').first().text().trim() || undefined,
+    sourceNickname: read('sourceNickname'),
+    sourceUrl: toHttps(read('sourceUrl'))
+  };
+
+  metadata.isOriginal = metadata.copyrightStat !== undefined
+    ? ORIGINAL_COPYRIGHT_STATS.has(metadata.copyrightStat)
+    : $('#copyright_logo').length > 0 || undefined;
+
+  // 去掉缺失的字段，保存为JSON时更紧凑
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined && value !== '')
+  ) as WeChatPageMetadata;
+}
+
+/**
+ * 账户上记录的公众号身份字段
+ */
+export function toAccountMetadata(metadata: WeChatPageMetadata): WeChatAccountMetadata | null {
+  const { biz, userName, nickname, headImageUrl } = metadata;
+  if (!biz && !userName) {
+    return null;
+  }
+  return Object.fromEntries(
+    Object.entries({ biz, userName, nickname, headImageUrl }).filter(([, value]) => value !== undefined)
+  ) as WeChatAccountMetadata;
+}
@@ -0,0 +1,80 @@
+export const WECHAT_HOST = 'mp.weixin.qq.com';
+const SHORT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * 公众号文章的身份：短链接 /s/<id>，或长链接 /s?__biz=&mid=&idx=&sn= 中的参数
+ * 同一篇文章的短链接和长链接无法在不抓取页面的情况下对应，视为不同链接
+ */
+export type WeChatArticleId =
+  | { type: 'short'; shortId: string }
+  | { type: 'params'; biz: string; mid: string; idx: string; sn?: string };
+
+export interface ParsedWeChatUrl {
+  id: WeChatArticleId;
+  key: string; // 用于去重的稳定标识
+  canonicalUrl: string; // 去掉 chksm、scene 等跟踪参数后的链接
+}
+
+/**
+ * 解析公众号文章链接，支持短链接 /s/<id>、长链接 /s?__biz=...，以及旧版 /mp/appmsg/show
+ * 不是公众号文章链接时返回null
+ */
+export function parseWeChatUrl(input: string): ParsedWeChatUrl | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim().replace(/&amp;/g, '&'));
+  } catch {
+    return null;
+  }
+
+  if (url.hostname !== WECHAT_HOST || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    return null;
+  }
+
+  const shortMatch = url.pathname.match(/^\/s\/([^/]+)\/?$/);
+  if (shortMatch) {
+    const shortId = shortMatch[1];
+    if (!SHORT_ID_PATTERN.test(shortId)) {
+      return null;
+    }
+    return {
+      id: { type: 'short', shortId },
+      key: `short:${shortId}`,
+      canonicalUrl: `https://${WECHAT_HOST}/s/${shortId}`
+    };
+  }
+
+  if (url.pathname !== '/s' && url.pathname !== '/s/' && url.pathname !== '/mp/appmsg/show') {
+    return null;
+  }
+
+  const params = url.searchParams;
+  const biz = params.get('__biz');
+  const mid = params.get('mid') ?? params.get('appmsgid');
+  const idx = params.get('idx') ?? params.get('itemidx') ?? '1';
+  const sn = params.get('sn') ?? params.get('signature') ?? undefined;
+  if (!biz || !mid) {
+    return null;
+  }
+
+  // __biz 是base64，保留末尾的 = 与微信自身生成的链接一致
+  const query = Object.entries({ __biz: biz, mid, idx, ...(sn && { sn }) })
+    .map(([name, value]) => `${name}=${encodeURIComponent(value).replace(/%3D/g, '=')}`)
+    .join('&');
+  return {
+    id: { type: 'params', biz, mid, idx, ...(sn && { sn }) },
+    key: `biz:${biz}:${mid}:${idx}`,
+    canonicalUrl: `https://${WECHAT_HOST}/s?${query}`
+  };
+}
+
+export function isWeChatArticleUrl(input: string): boolean {
+  return parseWeChatUrl(input) !== null;
+}
+
+/**
+ * 返回规范链接；不是公众号文章链接时原样返回
+ */
+export function canonicalizeWeChatUrl(input: string): string {
+  return parseWeChatUrl(input)?.canonicalUrl ?? input.trim();
+}
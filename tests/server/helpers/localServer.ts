@@ -0,0 +1,35 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface LocalServer {
+  url: string; // 形如 http://127.0.0.1:port，不带结尾斜杠
+  requests: URL[];
+  close(): Promise<void>;
+}
+
+/**
+ * 在本机随机端口启动HTTP服务，代替微信接口、订阅地址等外部服务
+ */
+export async function startLocalServer(handler: http.RequestListener): Promise<LocalServer> {
+  const requests: URL[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(new URL(req.url ?? '/', 'http://127.0.0.1'));
+    handler(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
+
+export function sendJson(res: http.ServerResponse, body: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
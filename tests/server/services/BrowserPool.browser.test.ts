@@ -0,0 +1,73 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import puppeteer from 'puppeteer';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LocalServer, startLocalServer } from '../helpers/localServer';
+import { BrowserPool } from '../../../src/server/services/BrowserPool';
+
+/**
+ * 使用真实的无头浏览器渲染本地HTML文件
+ * 需要 BROWSER_EXECUTABLE_PATH 或 puppeteer 自带的浏览器，两者都没有时跳过
+ */
+function findExecutable(): string | undefined {
+  const candidate = process.env.BROWSER_EXECUTABLE_PATH || (() => {
+    try {
+      return puppeteer.executablePath();
+    } catch {
+      return undefined;
+    }
+  })();
+  return candidate && existsSync(candidate) ? candidate : undefined;
+}
+
+const executablePath = findExecutable();
+const FIXTURES = path.resolve(__dirname, '../../fixtures/pages');
+const fixtureUrl = (name: string) => pathToFileURL(path.join(FIXTURES, name)).href;
+
+describe.skipIf(!executablePath)('BrowserPool（真实浏览器）', () => {
+  let pool: BrowserPool;
+  let server: LocalServer;
+
+  beforeAll(async () => {
+    server = await startLocalServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/javascript' });
+      res.end('document.title = "probe loaded";');
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await pool.close();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('等待脚本渲染出正文后返回页面', async () => {
+    pool = new BrowserPool({ executablePath, idleTimeout: 60000 });
+    const page = await pool.render(fixtureUrl('rendered.html'), { waitForSelector: '#js_content' });
+
+    expect(page.html).toContain('正文由脚本渲染，只有在浏览器中打开才能看到');
+  }, 60000);
+
+  it('页面中发往本机的请求被拦截', async () => {
+    pool = new BrowserPool({ executablePath, idleTimeout: 60000 });
+    const probe = encodeURIComponent(`${server.url}/probe.js`);
+    const page = await pool.render(`${fixtureUrl('rendered.html')}?probe=${probe}`, { waitForSelector: '#js_content' });
+
+    expect(page.html).toContain('<title>脚本渲染的文章</title>');
+    expect(server.requests).toHaveLength(0);
+  }, 60000);
+
+  it('渲染达到页面预算后重启浏览器', async () => {
+    const launch = vi.spyOn(puppeteer, 'launch');
+    pool = new BrowserPool({ executablePath, pageBudget: 1, idleTimeout: 60000 });
+
+    await pool.render(fixtureUrl('article.html'));
+    await pool.render(fixtureUrl('article.html'));
+
+    expect(launch).toHaveBeenCalledTimes(2);
+  }, 60000);
+});
@@ -0,0 +1,172 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * 以本地HTML文件代替真实浏览器，只用于检验页面池的调度，不执行页面中的脚本
+ */
+const fake = vi.hoisted(() => {
+  class FakePage {
+    private html = '';
+    private location = 'about:blank';
+    closed = false;
+
+    setDefaultTimeout() {}
+    async setUserAgent() {}
+    async setExtraHTTPHeaders() {}
+    async setRequestInterception() {}
+    on() {}
+
+    async goto(url: string) {
+      state.openPages++;
+      state.maxOpenPages = Math.max(state.maxOpenPages, state.openPages);
+      this.location = url;
+      this.html = await state.load(url);
+      await new Promise(resolve => setTimeout(resolve, state.navigationDelay));
+      return { status: () => 200 };
+    }
+
+    async waitForSelector(selector: string) {
+      if (!this.html.includes(`id="${selector.replace(/^#/, '')}"`)) {
+        throw new Error(`timeout waiting for ${selector}`);
+      }
+    }
+
+    async content() {
+      return this.html;
+    }
+
+    url() {
+      return this.location;
+    }
+
+    async close() {
+      if (!this.closed && this.location !== 'about:blank') {
+        state.openPages--;
+      }
+      this.closed = true;
+    }
+  }
+
+  class FakeBrowser {
+    rendered = 0;
+    closed = false;
+
+    on() {}
+
+    async newPage() {
+      this.rendered++;
+      return new FakePage();
+    }
+
+    async close() {
+      this.closed = true;
+    }
+  }
+
+  const state = {
+    browsers: [] as FakeBrowser[],
+    openPages: 0,
+    maxOpenPages: 0,
+    navigationDelay: 0,
+    load: async (_url: string) => ''
+  };
+  const launch = async () => {
+    const browser = new FakeBrowser();
+    state.browsers.push(browser);
+    return browser;
+  };
+  return { state, launch };
+});
+
+vi.mock('puppeteer', () => ({ default: { launch: fake.launch } }));
+
+import { BrowserPool } from '../../../src/server/services/BrowserPool';
+
+const FIXTURES = path.resolve(__dirname, '../../fixtures/pages');
+const fixtureUrl = (name: string) => pathToFileURL(path.join(FIXTURES, name)).href;
+
+describe('BrowserPool', () => {
+  let pool: BrowserPool;
+
+  beforeEach(() => {
+    Object.assign(fake.state, { browsers: [], openPages: 0, maxOpenPages: 0, navigationDelay: 0 });
+    fake.state.load = url => readFile(fileURLToPath(url), 'utf8');
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('渲染本地HTML文件并返回最终地址', async () => {
+    pool = new BrowserPool({ idleTimeout: 60000 });
+    const page = await pool.render(fixtureUrl('article.html'), { waitForSelector: '#js_content' });
+
+    expect(page.html).toContain('这是一篇不需要脚本即可阅读的文章正文');
+    expect(page.url).toBe(fixtureUrl('article.html'));
+    expect(page.status).toBe(200);
+  });
+
+  it('等不到正文元素时仍返回当前页面', async () => {
+    pool = new BrowserPool({ idleTimeout: 60000 });
+    const page = await pool.render(fixtureUrl('rendered.html'), { waitForSelector: '#js_content' });
+
+    expect(page.html).toContain('脚本渲染的文章');
+  });
+
+  it('每个浏览器渲染达到页面预算后重启，旧浏览器随之关闭', async () => {
+    pool = new BrowserPool({ pageBudget: 2, idleTimeout: 60000 });
+    for (let i = 0; i < 5; i++) {
+      await pool.render(fixtureUrl('article.html'));
+    }
+
+    expect(fake.state.browsers.map(browser => browser.rendered)).toEqual([2, 2, 1]);
+    expect(fake.state.browsers.map(browser => browser.closed)).toEqual([true, true, false]);
+  });
+
+  it('达到预算的浏览器等仍在渲染的页面关闭后才退出', async () => {
+    pool = new BrowserPool({ pageBudget: 1, maxConcurrentPages: 2, idleTimeout: 60000 });
+    fake.state.navigationDelay = 50;
+
+    const first = pool.render(fixtureUrl('article.html'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const second = pool.render(fixtureUrl('article.html'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const [retired] = fake.state.browsers;
+    expect(fake.state.browsers).toHaveLength(2);
+    expect(retired.closed).toBe(false);
+
+    await Promise.all([first, second]);
+    expect(retired.closed).toBe(true);
+  });
+
+  it('同时打开的页面数不超过上限', async () => {
+    pool = new BrowserPool({ maxConcurrentPages: 2, idleTimeout: 60000 });
+    fake.state.navigationDelay = 20;
+
+    await Promise.all(Array.from({ length: 6 }, () => pool.render(fixtureUrl('article.html'))));
+
+    expect(fake.state.maxOpenPages).toBe(2);
+    expect(fake.state.browsers).toHaveLength(1);
+  });
+
+  it('空闲超时后关闭浏览器，再次渲染时重新启动', async () => {
+    pool = new BrowserPool({ idleTimeout: 20 });
+    await pool.render(fixtureUrl('article.html'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(fake.state.browsers[0].closed).toBe(true);
+
+    await pool.render(fixtureUrl('article.html'));
+    expect(fake.state.browsers).toHaveLength(2);
+  });
+
+  it('页面加载失败时释放页面名额', async () => {
+    pool = new BrowserPool({ maxConcurrentPages: 1, idleTimeout: 60000 });
+
+    await expect(pool.render(fixtureUrl('missing.html'))).rejects.toThrow();
+    await expect(pool.render(fixtureUrl('article.html'))).resolves.toMatchObject({ status: 200 });
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WeChatAccount } from '@prisma/client';
+
+const prisma = vi.hoisted(() => ({
+  weChatAccount: { findMany: vi.fn(), update: vi.fn() },
+  article: { findMany: vi.fn() },
+  batchJobItem: { findMany: vi.fn() }
+}));
+const wake = vi.hoisted(() => vi.fn());
+
+vi.mock('../../../src/server/utils/prisma', () => ({ prisma }));
+vi.mock('../../../src/server/services/BatchJobWorker', () => ({ batchJobWorker: { wake } }));
+
+import { BatchJobService } from '../../../src/server/services/BatchJobService';
+import { SubscriptionService } from '../../../src/server/services/SubscriptionService';
+import { TaskLogService } from '../../../src/server/services/TaskLogService';
+import { ArticleSource, ArticleSources, DiscoveredArticle } from '../../../src/server/services/sources';
+
+const taskLogs = { track: (_type: string, _target: string, fn: () => Promise<unknown>) => fn() } as unknown as TaskLogService;
+
+function stubSource(type: ArticleSource['type'], articles: DiscoveredArticle[] = []): ArticleSource {
+  return { type, validate: () => null, discover: vi.fn().mockResolvedValue(articles) };
+}
+
+function account(overrides: Partial<WeChatAccount> = {}): WeChatAccount {
+  return {
+    id: 'account-1',
+    name: 'test',
+    displayName: '测试公众号',
+    sourceType: 'feed',
+    source: 'https://example.com/feed.xml',
+    schedule: '0 * * * *',
+    lastFetched: new Date('2024-01-01T00:00:00Z'),
+    createdAt: new Date('2023-12-01T00:00:00Z'),
+    isActive: true,
+    ...overrides
+  } as WeChatAccount;
+}
+
+describe('SubscriptionService', () => {
+  let sources: ArticleSources;
+  let createJob: ReturnType<typeof vi.fn>;
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sources = {
+      feed: stubSource('feed', [
+        { url: 'https://mp.weixin.qq.com/s/new-article' },
+        { url: 'https://mp.weixin.qq.com/s/saved-article' },
+        { url: 'https://mp.weixin.qq.com/s/queued-article' },
+        { url: 'https://mp.weixin.qq.com/s/new-article?scene=1' },
+        { url: 'not a link' }
+      ]),
+      biz: stubSource('biz'),
+      album: stubSource('album')
+    };
+    createJob = vi.fn().mockResolvedValue({ id: 'job-1' });
+    service = new SubscriptionService(sources, { createJob } as unknown as BatchJobService, taskLogs);
+
+    prisma.article.findMany.mockResolvedValue([{ url: 'https://mp.weixin.qq.com/s/saved-article' }]);
+    prisma.batchJobItem.findMany.mockResolvedValue([{ url: 'https://mp.weixin.qq.com/s/queued-article' }]);
+  });
+
+  it('只把未保存、不在队列中的新文章加入批量任务，并推进上次抓取时间', async () => {
+    const current = account();
+    const result = await service.fetchAccount(current);
+
+    expect(sources.feed.discover).toHaveBeenCalledWith(current.source, current.lastFetched);
+    expect(createJob).toHaveBeenCalledWith(['https://mp.weixin.qq.com/s/new-article'], { accountName: 'test' });
+    expect(wake).toHaveBeenCalled();
+    expect(result).toMatchObject({ discovered: 5, queued: 1, jobId: 'job-1' });
+    expect(prisma.weChatAccount.update).toHaveBeenCalledWith({
+      where: { id: current.id },
+      data: { lastFetched: expect.any(Date) }
+    });
+  });
+
+  it('手动指定的起始时间晚于上次抓取时间时不推进上次抓取时间', async () => {
+    await service.fetchAccount(account(), new Date('2024-02-01T00:00:00Z'));
+
+    expect(prisma.weChatAccount.update).not.toHaveBeenCalled();
+  });
+
+  it('没有新文章时不创建任务', async () => {
+    prisma.article.findMany.mockResolvedValue([
+      { url: 'https://mp.weixin.qq.com/s/new-article' },
+      { url: 'https://mp.weixin.qq.com/s/saved-article' }
+    ]);
+
+    const result = await service.fetchAccount(account());
+
+    expect(createJob).not.toHaveBeenCalled();
+    expect(result.queued).toBe(0);
+  });
+
+  it('按抓取计划找出已到时间的订阅', async () => {
+    prisma.weChatAccount.findMany.mockResolvedValue([
+      account({ id: 'due', lastFetched: new Date('2024-01-01T00:30:00Z') }),
+      account({ id: 'not-due', lastFetched: new Date('2024-01-01T01:10:00Z') }),
+      account({ id: 'invalid', schedule: 'not a cron' })
+    ]);
+
+    const due = await service.listDueAccounts(new Date('2024-01-01T01:20:00Z'));
+
+    expect(due.map(item => item.id)).toEqual(['due']);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/server/utils/prisma', () => ({ prisma: {} }));
+
+import { ChatMessage, CompletionOptions, MockProvider, SummarizationProvider } from '../../../src/server/services/providers';
+import { SummarizationError, SummarizerService } from '../../../src/server/services/SummarizerService';
+import { TaskLogService } from '../../../src/server/services/TaskLogService';
+
+// 不写数据库的任务日志，直接执行任务
+const taskLogs = { track: (_type: string, _target: string, fn: () => Promise<unknown>) => fn() } as unknown as TaskLogService;
+
+const VALID_OUTPUT = JSON.stringify({
+  summary: '一篇关于测试的文章',
+  keyPoints: ['要点一', '要点二', '要点三'],
+  sentiment: 'neutral',
+  category: '科技'
+});
+
+/**
+ * 按顺序返回预设输出的提供方，记录每次收到的消息和参数
+ * 每个用例使用不同的名称，避免共用同一个熔断器
+ */
+class ScriptedProvider implements SummarizationProvider {
+  readonly model = 'scripted';
+  readonly calls: Array<{ messages: ChatMessage[]; options?: CompletionOptions }> = [];
+
+  constructor(readonly name: string, private readonly outputs: Array<string | Error>) {}
+
+  async complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+    this.calls.push({ messages: [...messages], options });
+    const output = this.outputs[Math.min(this.calls.length - 1, this.outputs.length - 1)];
+    if (output instanceof Error) {
+      throw output;
+    }
+    return output;
+  }
+}
+
+describe('SummarizerService', () => {
+  const summarizer = new SummarizerService(taskLogs);
+
+  it('模拟提供方的输出首次即通过校验，且相同输入结果相同', async () => {
+    const provider = new MockProvider();
+    const first = await summarizer.summarizeArticle('标题', '这是一段足够长的文章正文内容。第二句话也足够长。', provider);
+    const second = await summarizer.summarizeArticle('标题', '这是一段足够长的文章正文内容。第二句话也足够长。', provider);
+
+    expect(first.parseStatus).toBe('ok');
+    expect(first.attempts).toBe(1);
+    expect(first.result?.keyPoints).toHaveLength(3);
+    expect(second.result).toEqual(first.result);
+  });
+
+  it('输出不合格时带着错误反馈以JSON模式修复重试', async () => {
+    const provider = new ScriptedProvider('scripted-repair', ['这不是JSON', VALID_OUTPUT]);
+    const outcome = await summarizer.summarizeArticle('标题', '正文', provider);
+
+    expect(outcome.parseStatus).toBe('repaired');
+    expect(outcome.result?.content).toBe('一篇关于测试的文章');
+    expect(outcome.attempts).toBe(2);
+
+    const repair = provider.calls[1];
+    expect(repair.options?.jsonMode).toBe(true);
+    expect(repair.messages.at(-2)).toEqual({ role: 'assistant', content: '这不是JSON' });
+    expect(repair.messages.at(-1)?.content).toContain('不符合要求');
+  });
+
+  it('修复次数用完后标记为解析失败并保留原始输出', async () => {
+    const provider = new ScriptedProvider('scripted-failed', ['{"summary": ""}']);
+    const outcome = await summarizer.summarizeArticle('标题', '正文', provider);
+
+    expect(outcome.parseStatus).toBe('failed');
+    expect(outcome.result).toBeNull();
+    expect(outcome.rawOutput).toBe('{"summary": ""}');
+    expect(outcome.attempts).toBe(3); // 首次调用 + 默认2次修复
+  });
+
+  it('不可重试的错误也计入调用次数', async () => {
+    const provider = new ScriptedProvider('scripted-error', [new Error('invalid request')]);
+    const error = await summarizer.summarizeArticle('标题', '正文', provider).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SummarizationError);
+    expect((error as SummarizationError).attempts).toBe(1);
+  });
+});
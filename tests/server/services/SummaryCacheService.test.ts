@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/server/utils/prisma', () => ({ prisma: {} }));
+
+import { computeContentHash, computeInputHash } from '../../../src/server/services/SummaryCacheService';
+
+describe('computeInputHash', () => {
+  const input = { title: '标题', account: '公众号', content: '正文' };
+
+  it('相同的提示词变量得到相同的哈希', () => {
+    expect(computeInputHash({ ...input })).toBe(computeInputHash(input));
+  });
+
+  it('标题、公众号或正文不同时哈希不同', () => {
+    const hash = computeInputHash(input);
+
+    expect(computeInputHash({ ...input, title: '另一个标题' })).not.toBe(hash);
+    expect(computeInputHash({ ...input, account: '另一个公众号' })).not.toBe(hash);
+    expect(computeInputHash({ ...input, content: '正文 ' })).not.toBe(hash);
+  });
+
+  it('字段之间的边界不会混淆', () => {
+    expect(computeInputHash({ title: 'ab', account: 'c', content: '' }))
+      .not.toBe(computeInputHash({ title: 'a', account: 'bc', content: '' }));
+  });
+});
+
+describe('computeContentHash', () => {
+  it('忽略全半角、大小写与空白差异', () => {
+    expect(computeContentHash('Hello  World\n')).toBe(computeContentHash('ｈｅｌｌｏworld'));
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { logger } from '../../../src/server/utils/logger';
+import { getProvider, MockProvider, OpenAICompatibleProvider } from '../../../src/server/services/providers';
+
+describe('getProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('按名称和模型复用实例，指定的模型记录在实例上', () => {
+    const provider = getProvider('mock');
+    const custom = getProvider('mock', 'mock-large');
+
+    expect(provider).toBeInstanceOf(MockProvider);
+    expect(getProvider('mock')).toBe(provider);
+    expect(getProvider('mock', 'mock-large')).toBe(custom);
+    expect(custom).not.toBe(provider);
+    expect(custom.model).toBe('mock-large');
+  });
+
+  it('缓存数量有上限，最久未使用的实例被淘汰', () => {
+    const first = getProvider('mock', 'model-0');
+    for (let i = 1; i <= 40; i++) {
+      getProvider('mock', `model-${i}`);
+    }
+
+    expect(getProvider('mock', 'model-0')).not.toBe(first);
+  });
+
+  it('未指定名称时使用 LLM_PROVIDER', () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+
+    expect(getProvider().name).toBe('mock');
+  });
+
+  it('不支持的提供方和缺少密钥时报错', () => {
+    vi.stubEnv('QWEN_API_KEY', '');
+
+    expect(() => getProvider('unknown')).toThrow('不支持的模型提供方');
+    expect(() => getProvider('qwen', 'qwen-max')).toThrow('QWEN_API_KEY');
+  });
+
+  it('创建实例时不记录API密钥', () => {
+    const info = vi.spyOn(logger, 'info');
+    new OpenAICompatibleProvider({ name: 'test', apiUrl: 'https://example.com', apiKey: 'sk-secret-key', model: 'test' });
+
+    expect(JSON.stringify(info.mock.calls)).not.toContain('sk-secret');
+  });
+});
@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LocalServer, sendJson, startLocalServer } from '../helpers/localServer';
+
+// 订阅地址的内网检查在 networkGuard.test.ts 中单独验证，这里放行本机的模拟服务
+vi.mock('../../../src/server/utils/networkGuard', () => ({
+  assertPublicUrl: () => undefined,
+  publicRequestConfig: {}
+}));
+
+import { createArticleSources } from '../../../src/server/services/sources';
+
+const DAY = 24 * 60 * 60;
+const now = Math.floor(Date.now() / 1000);
+
+// 历史消息接口：第一页两次推送（一次含两篇图文），第二页是一周前的推送
+const PROFILE_PAGES = [
+  {
+    ret: 0,
+    can_msg_continue: 1,
+    next_offset: 10,
+    general_msg_list: JSON.stringify({
+      list: [
+        {
+          comm_msg_info: { datetime: now - 60 },
+          app_msg_ext_info: {
+            title: '头条',
+            content_url: 'http://mp.weixin.qq.com/s?__biz=MzA=&amp;mid=1&amp;idx=1&amp;sn=a',
+            multi_app_msg_item_list: [{ title: '次条', content_url: 'http://mp.weixin.qq.com/s?__biz=MzA=&amp;mid=1&amp;idx=2&amp;sn=b' }]
+          }
+        },
+        {
+          comm_msg_info: { datetime: now - DAY / 2 },
+          app_msg_ext_info: { title: '昨天', content_url: 'http://mp.weixin.qq.com/s/yesterday' }
+        }
+      ]
+    })
+  },
+  {
+    ret: 0,
+    can_msg_continue: 1,
+    next_offset: 20,
+    general_msg_list: JSON.stringify({
+      list: [{ comm_msg_info: { datetime: now - 7 * DAY }, app_msg_ext_info: { title: '上周', content_url: 'http://mp.weixin.qq.com/s/old' } }]
+    })
+  }
+];
+
+const ALBUM_PAGES: Record<string, unknown> = {
+  first: {
+    base_resp: { ret: 0 },
+    getalbum_resp: {
+      continue_flag: '1',
+      article_list: [
+        { title: '合集一', url: 'https://mp.weixin.qq.com/s/album-1', create_time: String(now - 60), msgid: '11', itemidx: '1' },
+        { title: '合集二', url: 'https://mp.weixin.qq.com/s/album-2', create_time: String(now - 120), msgid: '10', itemidx: '1' }
+      ]
+    }
+  },
+  // 只有一篇文章时接口返回对象
+  '10': {
+    base_resp: { ret: 0 },
+    getalbum_resp: {
+      continue_flag: '0',
+      article_list: { title: '合集三', url: 'https://mp.weixin.qq.com/s/album-3', create_time: String(now - 180), msgid: '9', itemidx: '1' }
+    }
+  }
+};
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"><channel>
+  <item><title>新文章</title><link>https://mp.weixin.qq.com/s/feed-new</link><pubDate>${new Date().toUTCString()}</pubDate></item>
+  <item><title>旧文章</title><link>https://mp.weixin.qq.com/s/feed-old</link><pubDate>${new Date((now - 7 * DAY) * 1000).toUTCString()}</pubDate></item>
+</channel></rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry><title>Atom文章</title><link rel="alternate" href="https://mp.weixin.qq.com/s/atom-new"/><updated>${new Date().toISOString()}</updated></entry>
+</feed>`;
+
+describe('订阅来源（本地模拟服务）', () => {
+  let server: LocalServer;
+
+  beforeAll(async () => {
+    server = await startLocalServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+      if (url.pathname === '/mp/profile_ext') {
+        return sendJson(res, url.searchParams.get('__biz') === 'bad' ? { ret: -3, errmsg: 'no session' } : PROFILE_PAGES[Number(url.searchParams.get('offset')) / 10]);
+      }
+      if (url.pathname === '/mp/appmsgalbum') {
+        return sendJson(res, ALBUM_PAGES[url.searchParams.get('begin_msgid') ?? 'first']);
+      }
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end(url.pathname === '/atom.xml' ? ATOM : FEED);
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const since = new Date((now - DAY) * 1000);
+
+  it('历史消息翻页到起始时间为止，并还原转义的链接', async () => {
+    const { biz } = createArticleSources(server.url);
+    const articles = await biz.discover('MzA=', since);
+
+    expect(articles.map(article => article.title)).toEqual(['头条', '次条', '昨天']);
+    expect(articles[0].url).toBe('https://mp.weixin.qq.com/s?__biz=MzA=&mid=1&idx=1&sn=a');
+    expect(server.requests.filter(request => request.pathname === '/mp/profile_ext')).toHaveLength(2);
+  });
+
+  it('历史消息接口返回错误时抛出', async () => {
+    const { biz } = createArticleSources(server.url);
+
+    await expect(biz.discover('bad', since)).rejects.toThrow('no session');
+  });
+
+  it('合集按游标翻页，兼容只有一篇文章的返回', async () => {
+    const { album } = createArticleSources(`${server.url}/`);
+    const articles = await album.discover('https://mp.weixin.qq.com/mp/appmsgalbum?__biz=MzA=&album_id=42', since);
+
+    expect(articles.map(article => article.url)).toEqual([
+      'https://mp.weixin.qq.com/s/album-1',
+      'https://mp.weixin.qq.com/s/album-2',
+      'https://mp.weixin.qq.com/s/album-3'
+    ]);
+    const paged = server.requests.filter(request => request.searchParams.get('album_id') === '42');
+    expect(paged.map(request => request.searchParams.get('begin_msgid'))).toEqual([null, '10']);
+  });
+
+  it('RSS 和 Atom 只返回起始时间之后的文章', async () => {
+    const { feed } = createArticleSources(server.url);
+
+    expect((await feed.discover(`${server.url}/feed.xml`, since)).map(article => article.title)).toEqual(['新文章']);
+    expect((await feed.discover(`${server.url}/atom.xml`, since)).map(article => article.url)).toEqual(['https://mp.weixin.qq.com/s/atom-new']);
+  });
+
+  it('校验来源格式', () => {
+    const sources = createArticleSources(server.url);
+
+    expect(sources.biz.validate('MzA=')).toBeNull();
+    expect(sources.biz.validate('not a biz')).toContain('__biz');
+    expect(sources.album.validate('https://mp.weixin.qq.com/mp/appmsgalbum?__biz=MzA=')).toContain('album_id');
+    expect(sources.feed.validate('ftp://example.com/feed')).toContain('http');
+  });
+});
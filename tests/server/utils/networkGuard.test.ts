@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import axios from 'axios';
+import { LocalServer, startLocalServer } from '../helpers/localServer';
+import {
+  assertPublicUrl,
+  BlockedAddressError,
+  isBlockedAddressError,
+  isPrivateAddress,
+  isPublicUrl,
+  publicRequestConfig
+} from '../../../src/server/utils/networkGuard';
+import { classifyExtractionError } from '../../../src/server/utils/extractionErrors';
+import { fetchHtml } from '../../../src/server/services/adapters/fetchHtml';
+import { FeedSource } from '../../../src/server/services/sources';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe'
+  ])('%s 是内网地址', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8', 'example.com'])('%s 不是内网地址', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'http://127.0.0.1/',
+    'http://[::1]:8080/',
+    'http://2130706433/', // 十进制写法的 127.0.0.1
+    'http://0x7f.1/',
+    'http://[::ffff:169.254.169.254]/latest/meta-data'
+  ])('拒绝 %s', url => {
+    expect(() => assertPublicUrl(url)).toThrow(BlockedAddressError);
+  });
+
+  it('只允许 http(s) 链接', () => {
+    expect(() => assertPublicUrl('file:///etc/passwd')).toThrow('只允许访问 http(s) 链接');
+    expect(() => assertPublicUrl('not a url')).toThrow('无效的链接');
+    expect(() => assertPublicUrl('https://mp.weixin.qq.com/s/abc')).not.toThrow();
+  });
+
+  it('跳转到内网地址时拒绝', () => {
+    const beforeRedirect = publicRequestConfig.beforeRedirect!;
+
+    expect(() => beforeRedirect({ protocol: 'http:', hostname: '169.254.169.254' }, {} as never)).toThrow(BlockedAddressError);
+    // 跳转库给出的IPv6主机不带方括号
+    expect(() => beforeRedirect({ protocol: 'http:', hostname: '::1' }, {} as never)).toThrow(BlockedAddressError);
+    expect(() => beforeRedirect({ protocol: 'https:', hostname: '93.184.215.14' }, {} as never)).not.toThrow();
+  });
+});
+
+describe('请求本机服务（本地模拟服务）', () => {
+  let server: LocalServer;
+
+  beforeAll(async () => {
+    server = await startLocalServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end('<html><body>internal</body></html>');
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const localhostUrl = (path: string) => server.url.replace('127.0.0.1', 'localhost') + path;
+
+  it('域名解析到本机时在连接前拒绝', async () => {
+    const error = await axios.get(localhostUrl('/'), publicRequestConfig).catch(caught => caught);
+
+    expect(isBlockedAddressError(error)).toBe(true);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('抓取页面时拒绝并归类为 BLOCKED', async () => {
+    for (const url of [`${server.url}/article`, localhostUrl('/article')]) {
+      const error = await fetchHtml(url, { timeout: 2000, retries: 0 }).catch(caught => caught);
+      expect(classifyExtractionError(error).code).toBe('BLOCKED');
+    }
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('订阅地址指向本机时拒绝', async () => {
+    const feed = new FeedSource(2000);
+
+    expect(feed.validate(`${server.url}/feed.xml`)).toContain('不允许访问本机或内网地址');
+    await expect(feed.discover(localhostUrl('/feed.xml'), new Date(0))).rejects.toSatisfy(isBlockedAddressError);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('无头浏览器使用的异步检查同样解析域名', async () => {
+    expect(await isPublicUrl(localhostUrl('/'))).toBe(false);
+    expect(await isPublicUrl(server.url)).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError, RetryExhaustedError, withRetry } from '../../../src/server/utils/resilience';
+
+const networkError = () => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+describe('withRetry', () => {
+  it('可重试错误按次数重试，成功时返回总调用次数', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValueOnce('ok');
+
+    const result = await withRetry(fn, { label: 'test', retries: 2, baseDelay: 1, maxDelay: 1 });
+
+    expect(result).toEqual({ value: 'ok', attempts: 2 });
+  });
+
+  it('不可重试错误立即失败并保留原始错误', async () => {
+    const cause = new Error('bad request');
+    const fn = vi.fn().mockRejectedValue(cause);
+
+    const error = await withRetry(fn, { label: 'test', retries: 3, baseDelay: 1 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.cause).toBe(cause);
+    expect(error.attempts).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function openBreaker(): CircuitBreaker {
+    vi.useFakeTimers();
+    return new CircuitBreaker('test', { failureThreshold: 2, resetTimeout: 1000 });
+  }
+
+  async function trip(breaker: CircuitBreaker): Promise<void> {
+    for (let i = 0; i < 2; i++) {
+      await breaker.execute(() => Promise.reject(networkError())).catch(() => undefined);
+    }
+  }
+
+  it('连续失败达到阈值后在冷却期内直接拒绝', async () => {
+    const breaker = openBreaker();
+    await trip(breaker);
+    const fn = vi.fn().mockResolvedValue('ok');
+
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('半开状态只放行一次试探请求，试探完成前拒绝其余调用', async () => {
+    const breaker = openBreaker();
+    await trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    let finishProbe!: (value: string) => void;
+    const probe = breaker.execute(() => new Promise<string>(resolve => { finishProbe = resolve; }));
+    const other = vi.fn().mockResolvedValue('other');
+
+    await expect(breaker.execute(other)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(other).not.toHaveBeenCalled();
+    expect(breaker.isOpen()).toBe(true);
+
+    finishProbe('probe');
+    await expect(probe).resolves.toBe('probe');
+    await expect(breaker.execute(other)).resolves.toBe('other');
+  });
+
+  it('试探请求失败时重新打开', async () => {
+    const breaker = openBreaker();
+    await trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    await breaker.execute(() => Promise.reject(networkError())).catch(() => undefined);
+
+    await expect(breaker.execute(() => Promise.resolve('ok'))).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('试探请求因个别请求的问题失败时视为服务可用', async () => {
+    const breaker = openBreaker();
+    await trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    await breaker.execute(() => Promise.reject(new Error('bad request'))).catch(() => undefined);
+
+    await expect(breaker.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+});